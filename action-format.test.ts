@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import {
+  convertFinal,
+  formatActionCall,
+  parseActionCall,
+  parseFinal,
+} from "./action-format";
+import type { IntentDecision } from "./intent-prompt";
+
+const decisions: IntentDecision[] = [
+  { action: "noop" },
+  { action: "reply", args: { text: "Done, see you (tomorrow), ok?" } },
+  { action: "start_task", args: { explanation: '"Quoted" plan\nline two' } },
+  { action: "reply", args: { text: "line one\r\nline two" } },
+  { action: "reply", args: { text: "\b\u0001 \\n is not a\fnewline" } },
+  {
+    action: "update_task",
+    args: { task_id: "task with spaces", explanation: "Moved to 5pm." },
+  },
+];
+
+describe("call strings", () => {
+  test("format and parse back to the same decision", () => {
+    for (const decision of decisions) {
+      expect(parseActionCall(formatActionCall(decision))).toEqual(decision);
+    }
+  });
+
+  test("keep commas in the last argument and accept noop()", () => {
+    expect(
+      parseActionCall("cancel_task(task-8, No longer needed, user said so.)")
+    ).toEqual({
+      action: "cancel_task",
+      args: {
+        task_id: "task-8",
+        explanation: "No longer needed, user said so.",
+      },
+    });
+    expect(parseActionCall("noop()")).toEqual({ action: "noop" });
+  });
+
+  test("decode every JSON escape in double-quoted arguments", () => {
+    expect(
+      parseActionCall('update_task("task\\r9", "a\\r\\nb\\u00e9\\b\\f\\/")')
+    ).toEqual({
+      action: "update_task",
+      args: { task_id: "task\r9", explanation: "a\r\nb\u00e9\b\f/" },
+    });
+  });
+
+  test("reject unknown actions and arguments to noop", () => {
+    expect(() => parseActionCall("escalate(now)")).toThrow("Unknown action");
+    expect(() => parseActionCall("noop(now)")).toThrow("takes no arguments");
+  });
+});
+
+describe("convertFinal", () => {
+  test("converts between call strings and JSON", () => {
+    const json = convertFinal("update_task(task-3, Sent the deck.)", "json");
+    expect(JSON.parse(json)).toEqual({
+      action: "update_task",
+      args: { task_id: "task-3", explanation: "Sent the deck." },
+    });
+    expect(convertFinal(json, "call")).toBe(
+      "update_task(task-3, Sent the deck.)"
+    );
+    expect(parseFinal(json)).toEqual(parseFinal(convertFinal(json, "call")));
+  });
+});
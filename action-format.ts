@@ -0,0 +1,167 @@
+import { decisionArgs, findAction, getAction } from "./action-registry";
+import { parseDecision, schema, type IntentDecision } from "./intent-prompt";
+
+export type ActionFormat = "call" | "json";
+
+export const ACTION_FORMATS: ActionFormat[] = ["call", "json"];
+
+const PLAIN_ARG = /^[\w.-]+$/;
+
+function unescapeLoosely(body: string): string {
+  return body.replace(/\\(.)/gs, (_, next: string) =>
+    next === "n" ? "\n" : next === "t" ? "\t" : next
+  );
+}
+
+function readQuoted(input: string): { value: string; rest: string } {
+  const quote = input[0]!;
+  for (let i = 1; i < input.length; i++) {
+    const char = input[i]!;
+    if (char === "\\") {
+      i += 1;
+    } else if (char === quote) {
+      const body = input.slice(1, i);
+      const rest = input.slice(i + 1).trim();
+      // formatValue writes quoted values with JSON.stringify, so a double-quoted
+      // span is decoded as JSON; anything else a model wrote is read loosely.
+      if (quote === '"') {
+        try {
+          return { value: JSON.parse(input.slice(0, i + 1)), rest };
+        } catch {
+          // Not valid JSON, e.g. an unknown escape; fall through.
+        }
+      }
+      return { value: unescapeLoosely(body), rest };
+    }
+  }
+  throw new Error(`Unterminated ${quote} string in '${input}'`);
+}
+
+function readValue(input: string): string {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('"') || trimmed.startsWith("'")) {
+    try {
+      const { value, rest } = readQuoted(trimmed);
+      if (!rest) return value;
+    } catch {
+      // Not a fully quoted value; keep the text verbatim.
+    }
+  }
+  return trimmed;
+}
+
+function readLeadingArg(input: string): { value: string; rest: string } {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('"') || trimmed.startsWith("'")) {
+    const { value, rest } = readQuoted(trimmed);
+    if (!rest.startsWith(",")) {
+      throw new Error(`Expected ',' after '${value}' in '${input}'`);
+    }
+    return { value, rest: rest.slice(1) };
+  }
+  const comma = trimmed.indexOf(",");
+  if (comma === -1) throw new Error(`Missing arguments in '${input}'`);
+  return {
+    value: trimmed.slice(0, comma).trim(),
+    rest: trimmed.slice(comma + 1),
+  };
+}
+
+function splitArgs(inside: string, count: number): string[] {
+  const values: string[] = [];
+  let rest = inside;
+  for (let i = 0; i < count - 1; i++) {
+    const leading = readLeadingArg(rest);
+    values.push(leading.value);
+    rest = leading.rest;
+  }
+  values.push(readValue(rest));
+  return values;
+}
+
+export function parseActionCall(text: string): IntentDecision {
+  const trimmed = text.trim();
+  const open = trimmed.indexOf("(");
+  const name = (open === -1 ? trimmed : trimmed.slice(0, open)).trim();
+  const action = findAction(name);
+
+  if (action && action.params.length === 0) {
+    if (open === -1 || trimmed.slice(open) === "()") {
+      return schema.parse({ action: name });
+    }
+    throw new Error(`${name} takes no arguments in '${trimmed}'`);
+  }
+
+  if (open === -1 || !trimmed.endsWith(")")) {
+    throw new Error(`'${trimmed}' is not a call string`);
+  }
+  if (!action) throw new Error(`Unknown action '${name}' in '${trimmed}'`);
+
+  const values = splitArgs(trimmed.slice(open + 1, -1), action.params.length);
+  return schema.parse({
+    action: name,
+    args: Object.fromEntries(
+      action.params.map((param, i) => [param.name, values[i]])
+    ),
+  });
+}
+
+function formatValue(value: string): string {
+  const needsQuotes =
+    value.length === 0 ||
+    value !== value.trim() ||
+    value.startsWith('"') ||
+    value.startsWith("'") ||
+    value.includes("\n");
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+// Leading arguments are quoted unless they are plain ids. The last argument is
+// only quoted when it would not read back as-is (empty, padded, opening with a
+// quote or spanning lines), so it may contain bare commas.
+export function formatActionCall(decision: IntentDecision): string {
+  const { name, params } = getAction(decision.action);
+  if (params.length === 0) return name;
+
+  const args = decisionArgs(decision);
+  const values = params.map((param, i) => {
+    const value = args[param.name] ?? "";
+    if (i === params.length - 1) return formatValue(value);
+    return PLAIN_ARG.test(value) ? value : JSON.stringify(value);
+  });
+  return `${name}(${values.join(", ")})`;
+}
+
+export function detectActionFormat(text: string): ActionFormat {
+  const trimmed = text.trim();
+  return trimmed.startsWith("{") || trimmed.startsWith("```") ? "json" : "call";
+}
+
+export function parseFinal(text: string): IntentDecision {
+  return detectActionFormat(text) === "json"
+    ? parseDecision(text)
+    : parseActionCall(text);
+}
+
+export function formatFinal(
+  decision: IntentDecision,
+  format: ActionFormat
+): string {
+  return format === "json"
+    ? JSON.stringify(decision)
+    : formatActionCall(decision);
+}
+
+export function convertFinal(text: string, format: ActionFormat): string {
+  return formatFinal(parseFinal(text), format);
+}
+
+export function parseActionFormat(value: string | undefined): ActionFormat {
+  const format = (value ?? "call") as ActionFormat;
+  if (!ACTION_FORMATS.includes(format)) {
+    throw new Error(
+      `Unknown format '${value}'. Expected one of: ${ACTION_FORMATS.join(", ")}`
+    );
+  }
+  return format;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ACTION_NAMES,
+  decisionNote,
+  decisionSchema,
+  getAction,
+  signature,
+  taskIdArgs,
+} from "./action-registry";
+import { intentPrompt } from "./intent-prompt";
+
+describe("action registry", () => {
+  test("lists the built-in actions in order", () => {
+    expect(ACTION_NAMES).toEqual([
+      "reply",
+      "start_task",
+      "update_task",
+      "cancel_task",
+      "noop",
+    ]);
+  });
+
+  test("derives signatures, task ids and notes from the params", () => {
+    expect(signature(getAction("update_task"))).toBe(
+      "update_task(task_id, explanation of the update)"
+    );
+    expect(signature(getAction("noop"))).toBe("noop");
+
+    const decision = decisionSchema.parse({
+      action: "cancel_task",
+      args: { task_id: "task-8", explanation: "Plans changed." },
+    });
+    expect(taskIdArgs(decision)).toEqual(["task-8"]);
+    expect(decisionNote(decision)).toBe("Plans changed.");
+    expect(taskIdArgs({ action: "reply", args: { text: "Hi." } })).toEqual([]);
+  });
+
+  test("puts every action in the schema and the prompt", () => {
+    for (const name of ACTION_NAMES) {
+      expect(intentPrompt).toContain(signature(getAction(name)));
+    }
+    expect(() => getAction("escalate")).toThrow("Unknown action 'escalate'");
+    expect(
+      decisionSchema.safeParse({ action: "noop", args: { text: "x" } }).success
+    ).toBe(false);
+  });
+});
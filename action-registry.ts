@@ -0,0 +1,363 @@
+import { z } from "zod";
+
+export type ParamKind = "task_id" | "text";
+
+export type ActionParam = {
+  name: string;
+  kind: ParamKind;
+  label?: string;
+};
+
+export type LedgerEffect = "none" | "create" | "update" | "cancel";
+
+export type ActionExample = {
+  messages: string[];
+  tasks: string[];
+  reasoning: string[];
+  args: Record<string, string>;
+};
+
+export type ActionGeneration = {
+  prompt: string;
+  themes: string[];
+  taskCount: { min: number; max: number };
+};
+
+// An action declares its parameters, its effect on the ledger, the
+// description and guideline the system prompt shows, a worked example, and the
+// prompt, themes and task-count range the generator uses by default.
+export type ActionDefinition<
+  Name extends string = string,
+  Params extends readonly ActionParam[] = readonly ActionParam[],
+  Effect extends LedgerEffect = LedgerEffect,
+> = {
+  name: Name;
+  params: Params;
+  ledger: Effect;
+  description: string;
+  guideline?: string;
+  example: ActionExample;
+  generation: ActionGeneration;
+};
+
+function defineAction<
+  const Name extends string,
+  const Params extends readonly ActionParam[],
+  const Effect extends LedgerEffect,
+>(
+  definition: ActionDefinition<Name, Params, Effect>
+): ActionDefinition<Name, Params, Effect> {
+  return definition;
+}
+
+const reply = defineAction({
+  name: "reply",
+  params: [{ name: "text", kind: "text" }],
+  ledger: "none",
+  description:
+    "Provide a short assistant-facing message. Another model will turn this into the final user reply, so focus on intent and key content rather than surface phrasing.",
+  guideline:
+    "Reply directly when the user expects an immediate visible response or clarification.",
+  example: {
+    messages: [
+      "User: “Thanks for the update. Can you remind me when the report will be ready?”",
+      "Assistant (previous): “Working on the market analysis report now.”",
+    ],
+    tasks: [
+      '{ id: "task-14", summary: "Draft marketing brief", last_update: "Final sent to user yesterday" }',
+      '{ id: "task-21", summary: "Monitor competitor pricing", last_update: "Awaiting partner spreadsheet" }',
+    ],
+    reasoning: [
+      "User expects an immediate clarification; existing tasks do not impact the answer.",
+      "Ledger remains accurate; no need to open or adjust tasks.",
+      "Provide timing reassurance so downstream responder can phrase it naturally.",
+    ],
+    args: {
+      text: "Let the user know the market analysis report will be ready by 5pm today and invite them to ask for edits.",
+    },
+  },
+  generation: {
+    prompt:
+      "Provide a concise assistant intent that directly addresses the user and does not alter existing tasks. Ensure the final string is exactly in the form reply(...).",
+    themes: [
+      "Status reminder on deliverable",
+      "Clarifying timeline for project milestone",
+      "Responding to user gratitude and quick question",
+      "Handling simple factual question",
+      "Providing immediate reassurance after partial update",
+    ],
+    taskCount: { min: 1, max: 3 },
+  },
+});
+
+const startTask = defineAction({
+  name: "start_task",
+  params: [
+    { name: "explanation", kind: "text", label: "explanation of the task" },
+  ],
+  ledger: "create",
+  description:
+    "Open a new task; describe the objective and desired outcome so downstream agents know what to do.",
+  guideline:
+    "Start a new task only when the user expectation clearly requires offloading work that cannot be satisfied with an immediate reply.",
+  example: {
+    messages: [
+      "User: “Can you compile a comparison of three EU-based payroll providers with pricing and compliance details?”",
+    ],
+    tasks: [
+      '{ id: "task-21", summary: "Monitor vendor onboarding checklist", last_update: "Waiting for legal approval" }',
+      '{ id: "task-22", summary: "Follow up with finance on Q3 budget", last_update: "Finance promised update tomorrow" }',
+    ],
+    reasoning: [
+      "Request requires multi-step research and synthesis.",
+      "Existing tasks cover different objectives; avoid misusing them for the new ask.",
+      "Create a fresh task with clear research deliverable for downstream execution.",
+    ],
+    args: {
+      explanation:
+        "Research three EU payroll providers, capture pricing tiers, compliance certifications, and produce a concise comparison.",
+    },
+  },
+  generation: {
+    prompt:
+      "Open a brand new task distinct from any existing ones. The final string must be start_task(...) with a clear objective for downstream agents.",
+    themes: [
+      "New research initiative request",
+      "Planning upcoming event logistics",
+      "Launching product evaluation",
+      "Drafting policy or documentation",
+      "Coordinating multi-team rollout",
+    ],
+    taskCount: { min: 1, max: 3 },
+  },
+});
+
+const updateTask = defineAction({
+  name: "update_task",
+  params: [
+    { name: "task_id", kind: "task_id" },
+    { name: "explanation", kind: "text", label: "explanation of the update" },
+  ],
+  ledger: "update",
+  description:
+    "Progress an existing task; reference the task id and describe the latest progress, info gathered, or next step.",
+  example: {
+    messages: [
+      "System: 'task-32' exists to “Coordinate demo with Vendor X.”",
+      "User: “Did we ever hear back from Vendor X about scheduling?”",
+    ],
+    tasks: [
+      '{ id: "task-32", summary: "Schedule demo with Vendor X", last_update: "Awaiting vendor confirmation" }',
+      '{ id: "task-40", summary: "Prepare onboarding playbook", last_update: "Draft outline ready for review" }',
+    ],
+    reasoning: [
+      "Recent progress: assistant emailed vendor this morning and got reply confirming time.",
+      "'task-40' unaffected by this exchange, so leave it as-is.",
+      "Update 'task-32' so shared state reflects the confirmed schedule before downstream messaging.",
+    ],
+    args: {
+      task_id: "task-32",
+      explanation:
+        "Vendor confirmed the product demo for Wednesday at 10am PT; calendar invite sent to the user.",
+    },
+  },
+  generation: {
+    prompt:
+      "Select one existing task to progress. Reflect new information or next steps. The final string must be update_task(task-id, description). Include the exact task id from the task list.",
+    themes: [
+      "Vendor follow-up with new info",
+      "Technical issue reproduction progress",
+      "Pending approval status advance",
+      "Logistics arrangement milestone",
+      "Content creation status sync",
+    ],
+    taskCount: { min: 2, max: 3 },
+  },
+});
+
+const cancelTask = defineAction({
+  name: "cancel_task",
+  params: [
+    { name: "task_id", kind: "task_id" },
+    { name: "explanation", kind: "text", label: "explanation of the cancel" },
+  ],
+  ledger: "cancel",
+  description:
+    "Close an existing task; explain why it should stop or what blocked it.",
+  guideline:
+    "Cancel tasks that are obsolete, unrequested, or blocked without realistic path forward; explain why.",
+  example: {
+    messages: [
+      "User: “No need to keep working on the London offsite planning—we decided to stay local.”",
+    ],
+    tasks: [
+      '{ id: "task-8", summary: "Plan London offsite logistics", last_update: "Comparing venue proposals" }',
+      '{ id: "task-9", summary: "Arrange local catering options", last_update: "Shortlisted three vendors" }',
+    ],
+    reasoning: [
+      "User explicitly cancels the initiative.",
+      "Validate that related tasks ('task-9') remain relevant because event continues locally.",
+      "Close only the London-focused task and record rationale for future audits.",
+    ],
+    args: {
+      task_id: "task-8",
+      explanation:
+        "User chose a local option, so London offsite planning is no longer required.",
+    },
+  },
+  generation: {
+    prompt:
+      "Identify a task that should be stopped and justify the cancellation. The final string must be cancel_task(task-id, reason). Reference an id from the provided tasks.",
+    themes: [
+      "User retracts prior request",
+      "Task blocked by external decision",
+      "Requirements changed midstream",
+      "Duplicate initiative spotted",
+      "Budget removed for project",
+    ],
+    taskCount: { min: 2, max: 3 },
+  },
+});
+
+const noop = defineAction({
+  name: "noop",
+  params: [],
+  ledger: "none",
+  description:
+    "Take no new action while keeping state unchanged. Use only when active monitoring or external tool calls are in flight (especially when multiple tool results may still arrive) and no outward response is appropriate yet.",
+  guideline:
+    "'noop' when truly nothing should change yet (e.g., waiting for external completion) and acknowledge any outstanding dependencies in reasoning.",
+  example: {
+    messages: [
+      "User: “Any news on the NDA and the data export you kicked off?”",
+      "Tool callback: “Partner viewed the NDA at 14:32; signature pending.”",
+      "Tool callback: “Analytics export job completed chunk 2 of 5; continuing.”",
+    ],
+    tasks: [
+      '{ id: "task-21", summary: "Obtain signed NDA from partner", last_update: "Sent for signature; awaiting partner completion" }',
+      '{ id: "task-52", summary: "Run historical data export", last_update: "Export running via analytics tool" }',
+    ],
+    reasoning: [
+      "Multiple tool calls are active, each returning partial progress.",
+      "Final outputs still pending; altering tasks or replying now could mislead the user.",
+      "Mirror the wait-tool behavior by holding position until tools finish or new input arrives.",
+    ],
+    args: {},
+  },
+  generation: {
+    prompt:
+      "Choose noop only when multiple in-flight tools are still returning results and no outward action is warranted. The final string must be exactly noop (no punctuation or explanations).",
+    themes: [
+      "Awaiting signatures and data exports",
+      "Multiple investigation tools still running",
+      "External vendor automation mid-flight",
+      "Coordinated workflow waiting on webhook",
+      "Async compliance checks pending",
+    ],
+    taskCount: { min: 2, max: 3 },
+  },
+});
+
+// The decision schema, system prompt, call grammar, ledger effects and
+// generator defaults are all derived from this list.
+export const ACTIONS = [
+  reply,
+  startTask,
+  updateTask,
+  cancelTask,
+  noop,
+] as const;
+
+type RegisteredAction = (typeof ACTIONS)[number];
+
+export type ActionKind = RegisteredAction["name"];
+
+export type ActionsWithEffect<Effect extends LedgerEffect> = Extract<
+  RegisteredAction,
+  { ledger: Effect }
+>["name"];
+
+export const ACTION_NAMES = ACTIONS.map((action) => action.name) as [
+  ActionKind,
+  ...ActionKind[],
+];
+
+export function findAction(name: string): ActionDefinition | undefined {
+  return ACTIONS.find((action) => action.name === name);
+}
+
+export function getAction(name: string): ActionDefinition {
+  const action = findAction(name);
+  if (!action) throw new Error(`Unknown action '${name}'`);
+  return action;
+}
+
+export function signature(action: ActionDefinition): string {
+  return action.params.length === 0
+    ? action.name
+    : `${action.name}(${action.params
+        .map((param) => param.label ?? param.name)
+        .join(", ")})`;
+}
+
+export function decisionArgs(decision: IntentDecision): Record<string, string> {
+  return (decision.args ?? {}) as Record<string, string>;
+}
+
+export function taskIdArgs(decision: IntentDecision): string[] {
+  const args = decisionArgs(decision);
+  return getAction(decision.action)
+    .params.filter((param) => param.kind === "task_id")
+    .map((param) => args[param.name] ?? "");
+}
+
+export function decisionNote(decision: IntentDecision): string {
+  const args = decisionArgs(decision);
+  const param = getAction(decision.action).params.findLast(
+    (param) => param.kind === "text"
+  );
+  return param ? (args[param.name] ?? "") : "";
+}
+
+const text = z.string().trim().min(1);
+
+type ArgsSchema<Params extends readonly ActionParam[]> = z.ZodObject<
+  { [K in Params[number]["name"]]: typeof text },
+  z.core.$strict
+>;
+
+type ActionSchema<Action> =
+  Action extends ActionDefinition<infer Name, infer Params>
+    ? z.ZodObject<
+        {
+          action: z.ZodLiteral<Name>;
+          args: Params extends readonly []
+            ? z.ZodOptional<ArgsSchema<Params>>
+            : ArgsSchema<Params>;
+        },
+        z.core.$strict
+      >
+    : never;
+
+export function actionSchema<const Action extends ActionDefinition>(
+  action: Action
+): ActionSchema<Action> {
+  const args = z.strictObject(
+    Object.fromEntries(action.params.map((param) => [param.name, text]))
+  );
+  return z.strictObject({
+    action: z.literal(action.name),
+    args: action.params.length === 0 ? args.optional() : args,
+  }) as ActionSchema<Action>;
+}
+
+type ActionSchemas<Actions extends readonly unknown[]> = {
+  -readonly [K in keyof Actions]: ActionSchema<Actions[K]>;
+};
+
+export const decisionSchema = z.discriminatedUnion(
+  "action",
+  ACTIONS.map(actionSchema) as ActionSchemas<typeof ACTIONS>
+);
+
+export type IntentDecision = z.output<typeof decisionSchema>;
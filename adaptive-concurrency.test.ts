@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { createAimdLimiter } from "./adaptive-concurrency";
+
+describe("createAimdLimiter", () => {
+  test("starts at the minimum and ramps up to the maximum", () => {
+    const limiter = createAimdLimiter({ max: 8 });
+    expect(limiter.limit).toBe(1);
+
+    const seen = [limiter.limit];
+    for (let i = 0; i < 7; i++) {
+      limiter.onSuccess();
+      seen.push(limiter.limit);
+    }
+    expect(seen).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    limiter.onSuccess();
+    expect(limiter.limit).toBe(8);
+  });
+
+  test("halves on a rate limit and then grows one slot per window", () => {
+    const limiter = createAimdLimiter({ initial: 8, max: 8 });
+    limiter.onRateLimit(null);
+    expect(limiter.limit).toBe(4);
+
+    for (let i = 0; i < 3; i++) limiter.onSuccess();
+    expect(limiter.limit).toBe(4);
+    limiter.onSuccess();
+    expect(limiter.limit).toBe(5);
+    expect(limiter.snapshot()).toMatchObject({ decreases: 1, lowest: 4 });
+  });
+
+  test("never runs more calls than the limit", async () => {
+    const limiter = createAimdLimiter({ max: 4 });
+    let running = 0;
+    let peak = 0;
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.run(async () => {
+          running += 1;
+          peak = Math.max(peak, running);
+          await Bun.sleep(5);
+          running -= 1;
+        })
+      )
+    );
+    expect(peak).toBe(1);
+  });
+});
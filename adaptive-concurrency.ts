@@ -0,0 +1,111 @@
+export type AimdOptions = {
+  // Defaults to `min`; the limit ramps up to `max` as calls succeed.
+  initial?: number;
+  max: number;
+  min?: number;
+  decreaseFactor?: number;
+  // Rate-limit signals within this window of a decrease count as one event.
+  decreaseCooldownMs?: number;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Additive increase, multiplicative decrease: the limit starts low and grows
+// by one slot per successful call until the first rate limit (slow start),
+// then by one slot per window of successful calls, and shrinks by
+// `decreaseFactor` whenever the provider signals a rate limit. A Retry-After
+// pauses every new call.
+export function createAimdLimiter(options: AimdOptions) {
+  const min = options.min ?? 1;
+  const max = options.max;
+  const factor = options.decreaseFactor ?? 0.5;
+  const cooldownMs = options.decreaseCooldownMs ?? 1000;
+
+  let limit = Math.min(max, Math.max(min, options.initial ?? min));
+  let slowStart = true;
+  let active = 0;
+  let pausedUntil = 0;
+  let lastDecreaseAt = -Infinity;
+  let waiters: Array<() => void> = [];
+  const stats = {
+    rateLimited: 0,
+    decreases: 0,
+    lowest: Math.floor(limit),
+    highest: Math.floor(limit),
+  };
+
+  function wake() {
+    const ready = waiters;
+    waiters = [];
+    ready.forEach((resolve) => resolve());
+  }
+
+  async function acquire(): Promise<void> {
+    while (true) {
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+      if (active < Math.floor(limit)) {
+        active += 1;
+        return;
+      }
+      await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+  }
+
+  function release(): void {
+    active -= 1;
+    wake();
+  }
+
+  function onSuccess(): void {
+    const before = Math.floor(limit);
+    limit = Math.min(max, limit + (slowStart ? 1 : 1 / Math.max(1, before)));
+    stats.highest = Math.max(stats.highest, Math.floor(limit));
+    if (Math.floor(limit) > before) wake();
+  }
+
+  function onRateLimit(retryAfterMs: number | null): void {
+    const now = Date.now();
+    stats.rateLimited += 1;
+    if (retryAfterMs !== null) {
+      pausedUntil = Math.max(pausedUntil, now + retryAfterMs);
+    }
+    if (now - lastDecreaseAt < cooldownMs) return;
+    lastDecreaseAt = now;
+    slowStart = false;
+    limit = Math.max(min, limit * factor);
+    stats.decreases += 1;
+    stats.lowest = Math.min(stats.lowest, Math.floor(limit));
+  }
+
+  async function run<T>(call: () => Promise<T>): Promise<T> {
+    await acquire();
+    try {
+      return await call();
+    } finally {
+      release();
+    }
+  }
+
+  return {
+    run,
+    onSuccess,
+    onRateLimit,
+    get limit(): number {
+      return Math.floor(limit);
+    },
+    get active(): number {
+      return active;
+    },
+    snapshot() {
+      return { limit: Math.floor(limit), min, max, ...stats };
+    },
+  };
+}
+
+export type AimdLimiter = ReturnType<typeof createAimdLimiter>;
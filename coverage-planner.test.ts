@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import {
+  coverageCells,
+  planCoverage,
+  targetPositionOf,
+  type CoverageCell,
+  type CoverageDimensions,
+} from "./coverage-planner";
+import { createRandom } from "./random";
+
+const dimensions: CoverageDimensions = {
+  themes: ["vendor", "travel", "hiring"],
+  styles: ["minimal", "fragment"],
+  languages: ["en"],
+  taskCount: { min: 2, max: 3 },
+  targetsTask: true,
+};
+
+const countBy = (plan: CoverageCell[], key: (cell: CoverageCell) => string) => {
+  const counts: Record<string, number> = {};
+  for (const cell of plan) counts[key(cell)] = (counts[key(cell)] ?? 0) + 1;
+  return counts;
+};
+
+describe("coverageCells", () => {
+  test("crosses every dimension with the target positions per ledger size", () => {
+    // 3 themes × 2 styles × (2 positions for two tasks + 3 for three)
+    expect(coverageCells(dimensions)).toHaveLength(30);
+    expect(coverageCells({ ...dimensions, targetsTask: false })).toHaveLength(
+      12
+    );
+  });
+});
+
+describe("planCoverage", () => {
+  test("keeps marginals balanced with fewer jobs than cells", () => {
+    const plan = planCoverage(dimensions, 12, {}, createRandom("plan"));
+    expect(Object.values(countBy(plan, (cell) => cell.theme))).toEqual([
+      4, 4, 4,
+    ]);
+    expect(countBy(plan, (cell) => cell.style)).toEqual({
+      minimal: 6,
+      fragment: 6,
+    });
+    expect(countBy(plan, (cell) => String(cell.ledger.taskCount))).toEqual({
+      "2": 6,
+      "3": 6,
+    });
+  });
+
+  test("honours weights and is reproducible for a seed", () => {
+    const weights = { themes: { hiring: 0 }, styles: { fragment: 3 } };
+    const plan = planCoverage(dimensions, 8, weights, createRandom("w"));
+    expect(plan.some((cell) => cell.theme === "hiring")).toBe(false);
+    expect(countBy(plan, (cell) => cell.style)).toEqual({
+      minimal: 2,
+      fragment: 6,
+    });
+    expect(planCoverage(dimensions, 8, weights, createRandom("w"))).toEqual(
+      plan
+    );
+    expect(() =>
+      planCoverage(dimensions, 1, { languages: { en: 0 } }, createRandom("w"))
+    ).toThrow("exclude every cell");
+  });
+});
+
+describe("targetPositionOf", () => {
+  test("names the target's place in the ledger", () => {
+    const tasks = ["task-1", "task-2", "task-3"].map((id) => ({
+      id,
+      summary: id,
+      last_update: "",
+    }));
+    expect(tasks.map((task) => targetPositionOf(tasks, task.id))).toEqual([
+      "first",
+      "middle",
+      "last",
+    ]);
+    expect(targetPositionOf(tasks.slice(0, 1), "task-1")).toBe("only");
+    expect(targetPositionOf(tasks, "task-9")).toBeNull();
+  });
+});
@@ -0,0 +1,303 @@
+import { taskIdArgs } from "./action-registry";
+import type { IntentDecision, TaskRecord } from "./intent-prompt";
+import type { Random } from "./random";
+
+export type TargetPosition = "only" | "first" | "middle" | "last";
+
+export type LedgerShape = {
+  taskCount: number;
+  targetPosition: TargetPosition | null;
+};
+
+export type CoverageCell = {
+  theme: string;
+  style: string;
+  language: string;
+  ledger: LedgerShape;
+};
+
+// Set under `coverage.weights` in the generation config. Values a table does
+// not list weigh 1, and a weight of 0 excludes the value.
+export type CoverageWeights = {
+  themes?: Record<string, number>;
+  styles?: Record<string, number>;
+  languages?: Record<string, number>;
+  taskCounts?: Record<string, number>;
+  targetPositions?: Partial<Record<TargetPosition, number>>;
+};
+
+export type CoverageDimensions = {
+  themes: string[];
+  styles: string[];
+  languages: string[];
+  taskCount: { min: number; max: number };
+  targetsTask: boolean;
+};
+
+type Dimension =
+  "theme" | "style" | "language" | "taskCount" | "targetPosition";
+
+const DIMENSIONS: Dimension[] = [
+  "theme",
+  "style",
+  "language",
+  "taskCount",
+  "targetPosition",
+];
+
+export function targetPositions(taskCount: number): TargetPosition[] {
+  if (taskCount <= 1) return ["only"];
+  if (taskCount === 2) return ["first", "last"];
+  return ["first", "middle", "last"];
+}
+
+export function targetPositionOf(
+  tasks: TaskRecord[],
+  taskId: string
+): TargetPosition | null {
+  const index = tasks.findIndex((task) => task.id === taskId);
+  if (index === -1) return null;
+  if (tasks.length === 1) return "only";
+  if (index === 0) return "first";
+  return index === tasks.length - 1 ? "last" : "middle";
+}
+
+// The shape a generated row actually has, which may differ from the plan.
+export function ledgerShapeOf(
+  tasks: TaskRecord[],
+  decision: IntentDecision
+): LedgerShape {
+  const [taskId] = taskIdArgs(decision);
+  return {
+    taskCount: tasks.length,
+    targetPosition:
+      taskId === undefined ? null : targetPositionOf(tasks, taskId),
+  };
+}
+
+export function describeLedger(ledger: LedgerShape): string {
+  const tasks = `${ledger.taskCount} task${ledger.taskCount === 1 ? "" : "s"}`;
+  return ledger.targetPosition === null
+    ? tasks
+    : `${tasks}, target ${ledger.targetPosition}`;
+}
+
+function valueOf(cell: CoverageCell, dimension: Dimension): string {
+  switch (dimension) {
+    case "theme":
+      return cell.theme;
+    case "style":
+      return cell.style;
+    case "language":
+      return cell.language;
+    case "taskCount":
+      return String(cell.ledger.taskCount);
+    case "targetPosition":
+      return cell.ledger.targetPosition ?? "none";
+  }
+}
+
+export function cellKey(cell: CoverageCell): string {
+  return DIMENSIONS.map((dimension) => valueOf(cell, dimension)).join(" | ");
+}
+
+function weightOf(
+  weights: CoverageWeights,
+  dimension: Dimension,
+  value: string
+): number {
+  const table: Record<string, number | undefined> | undefined = {
+    theme: weights.themes,
+    style: weights.styles,
+    language: weights.languages,
+    taskCount: weights.taskCounts,
+    targetPosition: weights.targetPositions,
+  }[dimension];
+  return table?.[value] ?? 1;
+}
+
+// Target positions split their task-count bucket between them, so a
+// three-task ledger gets no more jobs than a two-task one by default.
+function cellWeight(cell: CoverageCell, weights: CoverageWeights): number {
+  const { taskCount, targetPosition } = cell.ledger;
+  const positionShare =
+    targetPosition === null
+      ? 1
+      : weightOf(weights, "targetPosition", targetPosition) /
+        targetPositions(taskCount).reduce(
+          (sum, position) =>
+            sum + weightOf(weights, "targetPosition", position),
+          0
+        );
+  return (
+    DIMENSIONS.filter((dimension) => dimension !== "targetPosition").reduce(
+      (product, dimension) =>
+        product * weightOf(weights, dimension, valueOf(cell, dimension)),
+      1
+    ) * positionShare
+  );
+}
+
+export function coverageCells(dimensions: CoverageDimensions): CoverageCell[] {
+  const cells: CoverageCell[] = [];
+  for (const theme of dimensions.themes) {
+    for (const style of dimensions.styles) {
+      for (const language of dimensions.languages) {
+        const { min, max } = dimensions.taskCount;
+        for (let taskCount = min; taskCount <= max; taskCount++) {
+          const positions = dimensions.targetsTask
+            ? targetPositions(taskCount)
+            : [null];
+          for (const targetPosition of positions) {
+            cells.push({
+              theme,
+              style,
+              language,
+              ledger: { taskCount, targetPosition },
+            });
+          }
+        }
+      }
+    }
+  }
+  return cells;
+}
+
+// Assigns `count` jobs to cells of the weighted cross-product. Each pick goes
+// to the cell that is furthest behind its own share plus the shares of its
+// theme, style, language and ledger shape, so marginals stay balanced even
+// when there are fewer jobs than cells; the seed breaks ties.
+export function planCoverage(
+  dimensions: CoverageDimensions,
+  count: number,
+  weights: CoverageWeights,
+  random: Random
+): CoverageCell[] {
+  const cells = coverageCells(dimensions)
+    .map((cell) => ({
+      cell,
+      weight: cellWeight(cell, weights),
+      tiebreak: random(),
+      picked: 0,
+    }))
+    .filter((entry) => entry.weight > 0 && Number.isFinite(entry.weight));
+  if (cells.length === 0) {
+    throw new Error("Coverage weights exclude every cell");
+  }
+
+  const totalWeight = cells.reduce((sum, entry) => sum + entry.weight, 0);
+  const marginalWeight = new Map<string, number>();
+  const marginalPicked = new Map<string, number>();
+  const marginalKey = (dimension: Dimension, cell: CoverageCell) =>
+    `${dimension}=${valueOf(cell, dimension)}`;
+  for (const entry of cells) {
+    for (const dimension of DIMENSIONS) {
+      const key = marginalKey(dimension, entry.cell);
+      marginalWeight.set(key, (marginalWeight.get(key) ?? 0) + entry.weight);
+    }
+  }
+
+  const plan: CoverageCell[] = [];
+  for (let step = 1; step <= count; step++) {
+    let best = cells[0]!;
+    let bestScore = -Infinity;
+    for (const entry of cells) {
+      let score = (step * entry.weight) / totalWeight - entry.picked;
+      for (const dimension of DIMENSIONS) {
+        const key = marginalKey(dimension, entry.cell);
+        score +=
+          (step * marginalWeight.get(key)!) / totalWeight -
+          (marginalPicked.get(key) ?? 0);
+      }
+      if (
+        score > bestScore ||
+        (score === bestScore && entry.tiebreak > best.tiebreak)
+      ) {
+        best = entry;
+        bestScore = score;
+      }
+    }
+    best.picked += 1;
+    best.tiebreak = random();
+    for (const dimension of DIMENSIONS) {
+      const key = marginalKey(dimension, best.cell);
+      marginalPicked.set(key, (marginalPicked.get(key) ?? 0) + 1);
+    }
+    plan.push(best.cell);
+  }
+  return plan;
+}
+
+export type CoverageEntry = { action: string; cell: CoverageCell };
+
+// The body of intent-dataset-coverage-report.json: planned versus generated
+// counts per dimension, a theme × style matrix per action, and every cell
+// that got fewer rows than planned.
+export function summarizeCoverage(
+  planned: CoverageEntry[],
+  generated: CoverageEntry[]
+) {
+  const tally = (entries: CoverageEntry[]) => {
+    const counts = new Map<string, number>();
+    for (const { action, cell } of entries) {
+      const key = `${action} | ${cellKey(cell)}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const plannedCounts = tally(planned);
+  const generatedCounts = tally(generated);
+  const cells = new Map(
+    planned.map((entry) => [`${entry.action} | ${cellKey(entry.cell)}`, entry])
+  );
+
+  const underfilled = [...cells.entries()]
+    .map(([key, { action, cell }]) => ({
+      action,
+      theme: cell.theme,
+      style: cell.style,
+      language: cell.language,
+      taskCount: cell.ledger.taskCount,
+      targetPosition: cell.ledger.targetPosition,
+      planned: plannedCounts.get(key)!,
+      generated: generatedCounts.get(key) ?? 0,
+    }))
+    .filter((cell) => cell.generated < cell.planned);
+
+  const marginals = Object.fromEntries(
+    DIMENSIONS.map((dimension) => {
+      const byValue: Record<string, { planned: number; generated: number }> =
+        {};
+      const add = (
+        entries: CoverageEntry[],
+        field: "planned" | "generated"
+      ) => {
+        for (const { cell } of entries) {
+          const value = valueOf(cell, dimension);
+          byValue[value] ??= { planned: 0, generated: 0 };
+          byValue[value][field] += 1;
+        }
+      };
+      add(planned, "planned");
+      add(generated, "generated");
+      return [dimension, byValue];
+    })
+  );
+
+  // Generated rows per action as a theme × style matrix.
+  const matrix: Record<string, Record<string, Record<string, number>>> = {};
+  for (const { action, cell } of generated) {
+    const row = ((matrix[action] ??= {})[cell.theme] ??= {});
+    row[cell.style] = (row[cell.style] ?? 0) + 1;
+  }
+
+  return {
+    plannedCells: cells.size,
+    filledCells: cells.size - underfilled.length,
+    plannedJobs: planned.length,
+    generatedJobs: generated.length,
+    underfilled,
+    marginals,
+    matrix,
+  };
+}
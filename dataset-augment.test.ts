@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import {
+  augmentRow,
+  augmentRows,
+  parseRates,
+  TRANSFORMS,
+} from "./dataset-augment";
+import { rowFamily, type DatasetRow } from "./dataset-rows";
+import { createRandom } from "./random";
+
+const transform = (name: string) =>
+  TRANSFORMS.find((candidate) => candidate.name === name)!;
+
+const user =
+  "Please update task-12, the Spec is at https://Example.com/Docs/Spec.PDF?v=2 now.";
+
+const row: DatasetRow = {
+  developer: "You are the orchestrator.",
+  tasks: [{ id: "task-12", summary: "Write spec", last_update: "Drafted" }],
+  user,
+  reasoning: "",
+  final: "update_task(task-12, Spec link shared.)",
+  messages: [
+    { content: "You are the orchestrator.", role: "system", thinking: null },
+    { content: user, role: "user", thinking: null },
+    {
+      content: "update_task(task-12, Spec link shared.)",
+      role: "assistant",
+      thinking: null,
+    },
+  ],
+};
+
+describe("asr transform", () => {
+  test("lowercases and strips punctuation outside task ids and links", () => {
+    const output = transform("asr").apply(user, createRandom("asr"));
+    expect(output).toContain("task-12");
+    expect(output).toContain("https://Example.com/Docs/Spec.PDF?v=2");
+    expect(output).not.toContain("Please");
+    expect(output).not.toContain(",");
+  });
+});
+
+describe("augmentRow", () => {
+  test("takes augmented copies out of the contrast set but keeps the family", () => {
+    const sibling = {
+      ...row,
+      contrast: { set: "change-of-plan", group: "g1" },
+    };
+    const copy = augmentRow(sibling, transform("typo"), createRandom("typo"))!;
+
+    expect(copy.contrast).toBeUndefined();
+    expect(copy.user).not.toBe(user);
+    expect(copy.final).toBe(row.final);
+    expect(rowFamily(copy)).toBe(rowFamily(sibling));
+  });
+});
+
+describe("augmentRows", () => {
+  test("is reproducible for a seed and skips earlier variants", () => {
+    const rates = parseRates("asr:1,typo:1");
+    const variants = augmentRows([row], rates, "seed");
+
+    expect(variants.map((variant) => variant.augmentation?.transforms)).toEqual(
+      [["asr"], ["typo"]]
+    );
+    expect(augmentRows([row], rates, "seed")).toEqual(variants);
+    expect(augmentRows(variants, rates, "seed")).toEqual([]);
+  });
+});
@@ -0,0 +1,458 @@
+import { writeFile } from "node:fs/promises";
+import {
+  readDatasetRows,
+  rowFamily,
+  rowId,
+  type DatasetRow,
+} from "./dataset-rows";
+import { createRandom, type Random } from "./random";
+
+export type AugmentTransform = {
+  name: string;
+  description: string;
+  apply(text: string, random: Random): string;
+};
+
+export type AugmentRates = Record<string, number>;
+
+// Task ids and links must survive untouched so labels stay valid.
+const PROTECTED = /(task-\d+|https?:\/\/\S+)/gi;
+
+function mapWords(text: string, fn: (word: string) => string): string {
+  return text
+    .split(PROTECTED)
+    .map((part, i) =>
+      i % 2 === 1 ? part : part.replace(/\p{L}[\p{L}']*/gu, fn)
+    )
+    .join("");
+}
+
+function pick<T>(items: readonly T[], random: Random): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+function matchCase(source: string, replacement: string): string {
+  return /^\p{Lu}/u.test(source)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+const HOMOPHONES: Record<string, string[]> = {
+  their: ["there", "they're"],
+  there: ["their"],
+  to: ["too", "two"],
+  too: ["to"],
+  for: ["four"],
+  know: ["no"],
+  right: ["write"],
+  write: ["right"],
+  weather: ["whether"],
+  whether: ["weather"],
+  hear: ["here"],
+  here: ["hear"],
+  by: ["buy", "bye"],
+  week: ["weak"],
+  meet: ["meat"],
+  would: ["wood"],
+  your: ["you're"],
+  its: ["it's"],
+  then: ["than"],
+  new: ["knew"],
+};
+
+const DISFLUENCIES = ["um", "uh", "like", "you know", "i mean", "so"];
+
+const asr: AugmentTransform = {
+  name: "asr",
+  description:
+    "speech-to-text output: homophones, fillers, no casing or punctuation",
+  apply: (text, random) => {
+    const words = text.split(PROTECTED).flatMap((part, i) =>
+      i % 2 === 1
+        ? [part]
+        : part
+            .replace(/\p{L}[\p{L}']*/gu, (word) => {
+              const options = HOMOPHONES[word.toLowerCase()];
+              return options && random() < 0.5 ? pick(options, random) : word;
+            })
+            .replace(/[.,!?;:"“”()]+/g, " ")
+            .toLowerCase()
+            .split(/\s+/)
+            .filter(Boolean)
+    );
+
+    const output: string[] = [];
+    words.forEach((word, i) => {
+      if (i === 0 || random() < 0.08) output.push(pick(DISFLUENCIES, random));
+      output.push(word);
+      if (random() < 0.04) output.push(word);
+    });
+    return output.join(" ");
+  },
+};
+
+const KEYBOARD_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm"];
+
+function neighbors(char: string): string {
+  const lower = char.toLowerCase();
+  const row = KEYBOARD_ROWS.findIndex((keys) => keys.includes(lower));
+  if (row === -1) return "";
+  const col = KEYBOARD_ROWS[row]!.indexOf(lower);
+  return [row - 1, row, row + 1]
+    .flatMap((r) => {
+      const keys = KEYBOARD_ROWS[r];
+      return keys ? [keys[col - 1], keys[col], keys[col + 1]] : [];
+    })
+    .filter((key): key is string => key !== undefined && key !== lower)
+    .join("");
+}
+
+function typo(word: string, random: Random): string {
+  const i = 1 + Math.floor(random() * (word.length - 1));
+  const char = word[i]!;
+  switch (Math.floor(random() * 4)) {
+    case 0: {
+      const keys = neighbors(char);
+      return keys
+        ? word.slice(0, i) + pick([...keys], random) + word.slice(i + 1)
+        : word;
+    }
+    case 1:
+      return word.slice(0, i - 1) + char + word[i - 1] + word.slice(i + 1);
+    case 2:
+      return word.slice(0, i) + word.slice(i + 1);
+    default:
+      return word.slice(0, i) + char + word.slice(i);
+  }
+}
+
+const typos: AugmentTransform = {
+  name: "typo",
+  description: "keyboard slips: neighbouring keys, swaps, drops and doubles",
+  apply: (text, random) => {
+    let changed = false;
+    const result = mapWords(text, (word) => {
+      if (word.length < 3 || random() >= 0.12) return word;
+      changed = true;
+      return typo(word, random);
+    });
+    if (changed) return result;
+
+    let fallback = false;
+    return mapWords(text, (word) => {
+      if (fallback || word.length < 4) return word;
+      fallback = true;
+      return typo(word, random);
+    });
+  },
+};
+
+const EMOJI = ["🙏", "👍", "😅", "🔥", "⏰", "🙂", "😬", "✅", "👀", "🤞"];
+
+const emoji: AugmentTransform = {
+  name: "emoji",
+  description: "emoji sprinkled mid-sentence or at the end",
+  apply: (text, random) => {
+    const count = 1 + Math.floor(random() * 2);
+    const words = text.split(" ");
+    for (let n = 0; n < count; n++) {
+      const at =
+        random() < 0.6
+          ? words.length
+          : 1 + Math.floor(random() * Math.max(1, words.length - 1));
+      words.splice(at, 0, pick(EMOJI, random));
+    }
+    return words.join(" ");
+  },
+};
+
+const SHORTHAND: Record<string, string> = {
+  you: "u",
+  your: "ur",
+  are: "r",
+  please: "pls",
+  thanks: "thx",
+  tomorrow: "tmrw",
+  tonight: "tonite",
+  because: "bc",
+  with: "w/",
+  without: "w/o",
+  about: "abt",
+  message: "msg",
+  okay: "ok",
+  people: "ppl",
+  before: "b4",
+  really: "rly",
+  something: "smth",
+  probably: "prob",
+  meeting: "mtg",
+  minutes: "mins",
+  question: "q",
+  schedule: "sched",
+  see: "c",
+  for: "4",
+  to: "2",
+};
+
+const shorthand: AugmentTransform = {
+  name: "shorthand",
+  description: "chat shorthand such as u, pls, tmrw and b4",
+  apply: (text, random) =>
+    mapWords(text, (word) => {
+      const short = SHORTHAND[word.toLowerCase()];
+      const common = word.length <= 3;
+      return short && random() < (common ? 0.5 : 0.85) ? short : word;
+    }),
+};
+
+type Lexicon = { opener: string; words: Record<string, string> };
+
+const LEXICONS: Lexicon[] = [
+  {
+    opener: "oye,",
+    words: {
+      please: "por favor",
+      thanks: "gracias",
+      yes: "sí",
+      today: "hoy",
+      tomorrow: "mañana",
+      hello: "hola",
+      hi: "hola",
+      okay: "vale",
+      ok: "vale",
+      sorry: "perdón",
+      quickly: "rápido",
+    },
+  },
+  {
+    opener: "also,",
+    words: {
+      please: "bitte",
+      thanks: "danke",
+      yes: "ja",
+      today: "heute",
+      tomorrow: "morgen",
+      hello: "hallo",
+      hi: "hallo",
+      okay: "passt",
+      ok: "passt",
+      sorry: "sorry",
+      quickly: "schnell",
+    },
+  },
+  {
+    opener: "bon,",
+    words: {
+      please: "s'il te plaît",
+      thanks: "merci",
+      yes: "oui",
+      today: "aujourd'hui",
+      tomorrow: "demain",
+      hello: "salut",
+      hi: "salut",
+      okay: "d'accord",
+      ok: "d'accord",
+      sorry: "désolé",
+      quickly: "vite",
+    },
+  },
+  {
+    opener: "achha,",
+    words: {
+      please: "please yaar",
+      thanks: "shukriya",
+      yes: "haan",
+      today: "aaj",
+      tomorrow: "kal",
+      hello: "namaste",
+      hi: "namaste",
+      okay: "theek hai",
+      ok: "theek hai",
+      sorry: "maaf karna",
+      quickly: "jaldi",
+    },
+  },
+];
+
+const codeSwitch: AugmentTransform = {
+  name: "code-switch",
+  description:
+    "everyday words and openers swapped into Spanish, German, French or Hindi",
+  apply: (text, random) => {
+    const lexicon = pick(LEXICONS, random);
+    let changed = false;
+    const result = mapWords(text, (word) => {
+      const swap = lexicon.words[word.toLowerCase()];
+      if (!swap) return word;
+      changed = true;
+      return matchCase(word, swap);
+    });
+    return changed ? result : `${lexicon.opener} ${result}`;
+  },
+};
+
+// ASR homophones and fillers, keyboard typos, emoji, chat shorthand and
+// mixed-language fragments.
+export const TRANSFORMS: AugmentTransform[] = [
+  asr,
+  typos,
+  emoji,
+  shorthand,
+  codeSwitch,
+];
+
+export const DEFAULT_RATES: AugmentRates = {
+  asr: 0.3,
+  typo: 0.3,
+  emoji: 0.15,
+  shorthand: 0.25,
+  "code-switch": 0.15,
+};
+
+export function parseRates(value: string | undefined): AugmentRates {
+  if (!value) return { ...DEFAULT_RATES };
+  const rates: AugmentRates = Object.fromEntries(
+    TRANSFORMS.map((transform) => [transform.name, 0])
+  );
+  for (const entry of value.split(",")) {
+    const [name = "", raw = ""] = entry.split(":");
+    const rate = Number(raw);
+    if (!(name in rates)) {
+      throw new Error(
+        `Unknown transform '${name}'. Known transforms: ${TRANSFORMS.map(
+          (transform) => transform.name
+        ).join(", ")}`
+      );
+    }
+    if (!(rate >= 0 && rate <= 1)) {
+      throw new Error(`Rate for ${name} must be between 0 and 1`);
+    }
+    rates[name] = rate;
+  }
+  return rates;
+}
+
+// The variant records its source row in `augmentation`, which is how
+// `dataset-cli.ts split` keeps it on the same side as the source.
+export function augmentRow(
+  row: DatasetRow,
+  transform: AugmentTransform,
+  random: Random
+): DatasetRow | null {
+  let changed = false;
+  const messages = row.messages.map((message) => {
+    if (message.role !== "user") return message;
+    const content = transform.apply(message.content, random).trim();
+    if (!content || content === message.content) return message;
+    changed = true;
+    return { ...message, content };
+  });
+  if (!changed) return null;
+
+  // A copy is no longer a minimal edit of its siblings, so it leaves the
+  // contrast set but stays in its group's family for splitting.
+  const { contrast, ...source } = row;
+  const users = messages.filter((message) => message.role === "user");
+  return {
+    ...source,
+    user: users[users.length - 1]?.content ?? row.user,
+    messages,
+    augmentation: {
+      source: rowId(row),
+      transforms: [transform.name],
+      ...(contrast ? { group: contrast.group } : {}),
+    },
+  };
+}
+
+// Each source row gets its own stream so variants do not shift when other
+// rows are added or removed.
+export function augmentRows(
+  rows: DatasetRow[],
+  rates: AugmentRates,
+  seed: string
+): DatasetRow[] {
+  return rows.flatMap((row) => {
+    if (row.augmentation) return [];
+    const random = createRandom(`${seed}:${rowId(row)}`);
+    return TRANSFORMS.flatMap((transform) => {
+      if (random() >= (rates[transform.name] ?? 0)) return [];
+      const variant = augmentRow(row, transform, random);
+      return variant ? [variant] : [];
+    });
+  });
+}
+
+function checkFamiliesStayInSplit(splits: Map<string, DatasetRow[]>): void {
+  const owner = new Map<string, string>();
+  const shared = new Set<string>();
+  for (const [file, rows] of splits) {
+    for (const row of rows) {
+      const family = rowFamily(row);
+      const previous = owner.get(family);
+      if (previous !== undefined && previous !== file) shared.add(family);
+      owner.set(family, file);
+    }
+  }
+  if (shared.size > 0) {
+    throw new Error(
+      `${shared.size} source rows appear in more than one input file; augmenting them would leak variants across splits`
+    );
+  }
+}
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+async function main() {
+  const files = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+  if (files.length === 0) {
+    console.error(
+      `Usage: bun dataset-augment.ts <split.jsonl>... [--rates=${Object.entries(
+        DEFAULT_RATES
+      )
+        .map(([name, rate]) => `${name}:${rate}`)
+        .join(",")}] [--seed=] [--suffix=.augmented.jsonl] [--variants-only]`
+    );
+    process.exit(1);
+  }
+
+  const rates = parseRates(readArg("rates"));
+  const seed = readArg("seed") ?? "augment";
+  const suffix = readArg("suffix") ?? ".augmented.jsonl";
+  const variantsOnly = process.argv.includes("--variants-only");
+
+  const splits = new Map<string, DatasetRow[]>();
+  for (const file of files) splits.set(file, await readDatasetRows(file));
+  checkFamiliesStayInSplit(splits);
+
+  for (const [file, rows] of splits) {
+    const variants = augmentRows(rows, rates, seed);
+    const output = file.replace(/\.jsonl$/i, "") + suffix;
+    const written = variantsOnly ? variants : [...rows, ...variants];
+    await writeFile(
+      output,
+      written.map((row) => JSON.stringify(row)).join("\n") + "\n"
+    );
+
+    const byTransform = TRANSFORMS.map(
+      (transform) =>
+        `${transform.name} ${
+          variants.filter(
+            (variant) => variant.augmentation?.transforms[0] === transform.name
+          ).length
+        }`
+    ).join(", ");
+    console.log(
+      `${file}: ${variants.length} variants from ${rows.length} rows (${byTransform}) → ${output}`
+    );
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
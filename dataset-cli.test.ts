@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { actionOf, splitByFamily, stratifiedSample } from "./dataset-cli";
+import { rowFamily, type DatasetRow } from "./dataset-rows";
+import { createRandom } from "./random";
+
+function makeRow(user: string, final: string, group?: string): DatasetRow {
+  return {
+    developer: "You are the orchestrator.",
+    tasks: [{ id: "task-12", summary: "Write spec", last_update: "Drafted" }],
+    user,
+    reasoning: "",
+    final,
+    messages: [
+      { content: "You are the orchestrator.", role: "system", thinking: null },
+      { content: user, role: "user", thinking: null },
+      { content: final, role: "assistant", thinking: null },
+    ],
+    ...(group ? { contrast: { set: "status-vs-update", group } } : {}),
+  };
+}
+
+describe("actionOf", () => {
+  test("reads the action of the final and marks unparsable finals", () => {
+    expect(actionOf(makeRow("stop", "cancel_task(task-12, Stopped.)"))).toBe(
+      "cancel_task"
+    );
+    expect(actionOf(makeRow("hm", "maybe_later()"))).toBe("invalid");
+  });
+});
+
+describe("stratifiedSample", () => {
+  test("keeps each action's share of the dataset", () => {
+    const rows = [
+      ...Array.from({ length: 30 }, (_, i) =>
+        makeRow(`thanks ${i}`, "reply(You are welcome.)")
+      ),
+      ...Array.from({ length: 10 }, (_, i) =>
+        makeRow(`stop task ${i}`, "cancel_task(task-12, User stopped it.)")
+      ),
+    ].map((row) => ({ row }));
+
+    const sample = stratifiedSample(rows, 8, createRandom("sample"));
+    const actions = sample.map((entry) => actionOf(entry.row));
+
+    expect(actions.filter((action) => action === "reply")).toHaveLength(6);
+    expect(actions.filter((action) => action === "cancel_task")).toHaveLength(
+      2
+    );
+  });
+
+  test("is reproducible for a seed", () => {
+    const rows = Array.from({ length: 20 }, (_, i) => ({
+      row: makeRow(`thanks ${i}`, "reply(You are welcome.)"),
+    }));
+
+    expect(stratifiedSample(rows, 5, createRandom("a"))).toEqual(
+      stratifiedSample(rows, 5, createRandom("a"))
+    );
+  });
+});
+
+describe("splitByFamily", () => {
+  test("keeps contrast siblings with different actions on one side", () => {
+    const rows = Array.from({ length: 10 }, (_, i) => [
+      makeRow(`is the spec done ${i}`, "reply(Spec is drafted.)", `g${i}`),
+      makeRow(
+        `spec is done ${i}`,
+        "update_task(task-12, Spec finished.)",
+        `g${i}`
+      ),
+    ])
+      .flat()
+      .map((row) => ({ row }));
+
+    const { train, test: held } = splitByFamily(
+      rows,
+      0.8,
+      createRandom("split")
+    );
+    const trainFamilies = new Set(train.map((entry) => rowFamily(entry.row)));
+
+    expect(train).toHaveLength(16);
+    expect(held).toHaveLength(4);
+    for (const entry of held) {
+      expect(trainFamilies.has(rowFamily(entry.row))).toBe(false);
+    }
+  });
+
+  test("stratifies single rows by action", () => {
+    const rows = [
+      ...Array.from({ length: 10 }, (_, i) =>
+        makeRow(`thanks ${i}`, "reply(You are welcome.)")
+      ),
+      ...Array.from({ length: 10 }, (_, i) =>
+        makeRow(`stop task ${i}`, "cancel_task(task-12, User stopped it.)")
+      ),
+    ].map((row) => ({ row }));
+
+    const { test: held } = splitByFamily(rows, 0.9, createRandom("split"));
+
+    expect(held.map((entry) => actionOf(entry.row)).sort()).toEqual([
+      "cancel_task",
+      "reply",
+    ]);
+  });
+});
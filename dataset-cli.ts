@@ -0,0 +1,441 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseFinal } from "./action-format";
+import {
+  parseDatasetLine,
+  rowFamily,
+  rowKey,
+  rowPrompt,
+  type ActionKind,
+  type DatasetRow,
+} from "./dataset-rows";
+import { validateRow } from "./dataset-validation";
+import type { JobSummary } from "./generation-journal";
+import { formatStamp } from "./prompt-registry";
+import { createRandom, shuffle, type Random } from "./random";
+
+type LoadedRow = {
+  file: string;
+  line: number;
+  raw: string;
+  row: DatasetRow;
+  job: JobSummary | null;
+  lora: boolean;
+};
+
+type LoadError = { file: string; line: number; message: string };
+
+const UNKNOWN = "unknown";
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+function parseLoadedLine(raw: string): Pick<LoadedRow, "row" | "job" | "lora"> {
+  const json = JSON.parse(raw);
+  if (json && typeof json === "object" && json.job && json.row) {
+    return {
+      row: json.row as DatasetRow,
+      job: json.job as JobSummary,
+      lora: false,
+    };
+  }
+  return {
+    row: parseDatasetLine(raw),
+    job: null,
+    lora: typeof json?.final !== "string",
+  };
+}
+
+async function loadFiles(files: string[]) {
+  const rows: LoadedRow[] = [];
+  const errors: LoadError[] = [];
+  for (const file of files) {
+    const text = await readFile(file, "utf8");
+    // Resumed journals can record a job more than once; the last entry wins.
+    const journaled = new Map<number, number>();
+    text.split("\n").forEach((raw, index) => {
+      if (!raw.trim()) return;
+      try {
+        const entry = { file, line: index + 1, raw, ...parseLoadedLine(raw) };
+        const previous = entry.job
+          ? journaled.get(entry.job.globalIndex)
+          : undefined;
+        if (previous !== undefined) {
+          rows[previous] = entry;
+          return;
+        }
+        if (entry.job) journaled.set(entry.job.globalIndex, rows.length);
+        rows.push(entry);
+      } catch (error) {
+        errors.push({
+          file,
+          line: index + 1,
+          message: (error as Error).message,
+        });
+      }
+    });
+  }
+  return { rows, errors };
+}
+
+async function loadOrExit(files: string[]): Promise<LoadedRow[]> {
+  const { rows, errors } = await loadFiles(files);
+  for (const { file, line, message } of errors) {
+    console.error(`${file}:${line} — ${message}`);
+  }
+  if (errors.length > 0) process.exit(1);
+  return rows;
+}
+
+export function actionOf(row: DatasetRow): ActionKind | "invalid" {
+  try {
+    return parseFinal(row.final).action;
+  } catch {
+    return "invalid";
+  }
+}
+
+function groupByAction<T extends { row: DatasetRow }>(
+  rows: T[]
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const entry of rows) {
+    const action = actionOf(entry.row);
+    const group = groups.get(action);
+    if (group) group.push(entry);
+    else groups.set(action, [entry]);
+  }
+  return groups;
+}
+
+export function stratifiedSample<T extends { row: DatasetRow }>(
+  rows: T[],
+  n: number,
+  random: Random
+): T[] {
+  if (n >= rows.length) return shuffle([...rows], random);
+
+  const groups = [...groupByAction(rows).values()].map((group) =>
+    shuffle([...group], random)
+  );
+  const quotas = groups.map((group) => (group.length / rows.length) * n);
+  const counts = quotas.map(Math.floor);
+  let remaining = n - counts.reduce((sum, count) => sum + count, 0);
+  const byRemainder = quotas
+    .map((quota, i) => ({ i, remainder: quota - Math.floor(quota) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { i } of byRemainder) {
+    if (remaining === 0) break;
+    counts[i]! += 1;
+    remaining -= 1;
+  }
+
+  return shuffle(
+    groups.flatMap((group, i) => group.slice(0, counts[i])),
+    random
+  );
+}
+
+// Rows of one family (a contrast group or a source row with its augmented
+// copies) always land in the same split. Families are stratified by the set
+// of actions they contain, so a contrast group counts once per stratum.
+export function splitByFamily<T extends { row: DatasetRow }>(
+  rows: T[],
+  ratio: number,
+  random: Random
+): { train: T[]; test: T[] } {
+  const families = new Map<string, T[]>();
+  for (const entry of rows) {
+    const family = rowFamily(entry.row);
+    const members = families.get(family);
+    if (members) members.push(entry);
+    else families.set(family, [entry]);
+  }
+
+  const strata = new Map<string, T[][]>();
+  for (const members of families.values()) {
+    const key = [...new Set(members.map((entry) => actionOf(entry.row)))]
+      .sort()
+      .join("+");
+    const stratum = strata.get(key);
+    if (stratum) stratum.push(members);
+    else strata.set(key, [members]);
+  }
+
+  const train: T[] = [];
+  const test: T[] = [];
+  for (const stratum of strata.values()) {
+    const shuffled = shuffle(stratum, random);
+    const cut = Math.round(shuffled.length * ratio);
+    train.push(...shuffled.slice(0, cut).flat());
+    test.push(...shuffled.slice(cut).flat());
+  }
+  return { train, test };
+}
+
+async function writeLines(filePath: string, rows: LoadedRow[]) {
+  await writeFile(filePath, rows.map((entry) => entry.raw).join("\n") + "\n");
+}
+
+function countBy<T>(items: T[], key: (item: T) => string) {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const value = key(item);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+function renderDistribution(
+  title: string,
+  counts: Array<[string, number]>,
+  total: number
+): string {
+  const width = Math.max(...counts.map(([label]) => label.length), 5);
+  const lines = counts.map(
+    ([label, count]) =>
+      `  ${label.padEnd(width)}  ${String(count).padStart(6)}  ${(
+        (count / total) *
+        100
+      ).toFixed(1)}%`
+  );
+  return [`${title}:`, ...lines].join("\n");
+}
+
+function renderHistogram(title: string, values: number[]): string {
+  if (values.length === 0) return `${title}: no data`;
+  const max = Math.max(...values);
+  const bucketSize = Math.max(1, Math.ceil((max + 1) / 10));
+  const buckets = new Map<number, number>();
+  for (const value of values) {
+    const bucket = Math.floor(value / bucketSize);
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
+  }
+  const peak = Math.max(...buckets.values());
+  const lines = [...buckets.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([bucket, count]) => {
+      const label = `${bucket * bucketSize}-${(bucket + 1) * bucketSize - 1}`;
+      const bar = "#".repeat(Math.max(1, Math.round((count / peak) * 40)));
+      return `  ${label.padStart(9)}  ${String(count).padStart(6)}  ${bar}`;
+    });
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return [
+    `${title} (mean ${mean.toFixed(1)}, median ${
+      sorted[Math.floor(sorted.length / 2)]
+    }, max ${max}):`,
+    ...lines,
+  ].join("\n");
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+async function runValidate(files: string[]) {
+  const { rows, errors } = await loadFiles(files);
+  let invalidRows = 0;
+  for (const { file, line, message } of errors) {
+    console.error(`${file}:${line} — ${message}`);
+  }
+  for (const { file, line, row } of rows) {
+    const issues = validateRow(row);
+    if (issues.length === 0) continue;
+    invalidRows += 1;
+    for (const issue of issues) console.error(`${file}:${line} — ${issue}`);
+  }
+
+  const total = rows.length + errors.length;
+  const failed = invalidRows + errors.length;
+  console.log(`${total - failed}/${total} rows valid`);
+  if (failed > 0) process.exit(1);
+}
+
+async function runStats(files: string[]) {
+  const rows = await loadOrExit(files);
+  if (rows.length === 0) {
+    console.log("No rows found.");
+    return;
+  }
+
+  const sections = [
+    `${rows.length} rows from ${files.length} file(s)`,
+    renderDistribution(
+      "Actions",
+      countBy(rows, (entry) => actionOf(entry.row)),
+      rows.length
+    ),
+    renderDistribution(
+      "Message styles",
+      countBy(
+        rows,
+        (entry) =>
+          entry.job?.messageStyle ?? entry.row.job?.messageStyle ?? UNKNOWN
+      ),
+      rows.length
+    ),
+    renderDistribution(
+      "Languages",
+      countBy(rows, (entry) => entry.row.language ?? UNKNOWN),
+      rows.length
+    ),
+    renderDistribution(
+      "Themes",
+      countBy(
+        rows,
+        (entry) => entry.job?.theme ?? entry.row.job?.theme ?? UNKNOWN
+      ),
+      rows.length
+    ),
+    renderDistribution(
+      "Prompt versions",
+      countBy(rows, (entry) => formatStamp(rowPrompt(entry.row))),
+      rows.length
+    ),
+    renderDistribution(
+      "Augmentations",
+      countBy(
+        rows,
+        (entry) => entry.row.augmentation?.transforms.join("+") ?? "original"
+      ),
+      rows.length
+    ),
+    renderDistribution(
+      "Ongoing tasks",
+      countBy(rows, (entry) => String(entry.row.tasks.length)).sort(
+        (a, b) => Number(a[0]) - Number(b[0])
+      ),
+      rows.length
+    ),
+    renderDistribution(
+      "User turns",
+      countBy(rows, (entry) =>
+        String(
+          entry.row.messages.filter((message) => message.role === "user").length
+        )
+      ).sort((a, b) => Number(a[0]) - Number(b[0])),
+      rows.length
+    ),
+    renderHistogram(
+      "Final user message words",
+      rows.map((entry) => wordCount(entry.row.user))
+    ),
+    renderHistogram(
+      "Reasoning words",
+      rows.map((entry) => wordCount(entry.row.reasoning))
+    ),
+  ];
+
+  if (rows.every((entry) => entry.job === null && !entry.row.job)) {
+    sections.push(
+      "Style and theme are recorded on generated rows (job) and in generation journals (*.journal.jsonl)."
+    );
+  }
+
+  console.log(sections.join("\n\n"));
+}
+
+async function runSample(files: string[]) {
+  const n = Number(readArg("n") ?? "20");
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new Error("--n must be a positive integer");
+  }
+  const random = createRandom(readArg("seed") ?? "sample");
+  const rows = await loadOrExit(files);
+  const sample = stratifiedSample(rows, n, random);
+
+  const out = readArg("out");
+  if (out) {
+    await writeLines(out, sample);
+    console.log(`Wrote ${sample.length} sampled rows to ${out}`);
+  } else {
+    console.log(sample.map((entry) => entry.raw).join("\n"));
+  }
+}
+
+async function runSplit(files: string[]) {
+  const ratio = Number(readArg("ratio") ?? "0.9");
+  if (!(ratio > 0 && ratio < 1)) {
+    throw new Error("--ratio must be between 0 and 1");
+  }
+  const random = createRandom(readArg("seed") ?? "split");
+  const prefix = readArg("out-prefix") ?? files[0]!.replace(/\.jsonl$/i, "");
+  const rows = await loadOrExit(files);
+
+  // A LoRA line is one turn of a row and has lost its contrast group and
+  // augmentation source, so related samples could land on both sides.
+  const lora = rows.find((entry) => entry.lora);
+  if (lora) {
+    throw new Error(
+      `split needs full rows, but ${lora.file} is in LoRA format; split the full dataset file instead`
+    );
+  }
+
+  const { train, test } = splitByFamily(rows, ratio, random);
+
+  for (const [name, split] of [
+    ["train", train],
+    ["test", test],
+  ] as const) {
+    const output = `${prefix}-${name}.jsonl`;
+    await writeLines(output, shuffle(split, random));
+    console.log(`Wrote ${split.length} ${name} rows to ${output}`);
+  }
+}
+
+async function runMerge(files: string[]) {
+  const out = readArg("out");
+  if (!out) throw new Error("merge requires --out=path");
+  const rows = await loadOrExit(files);
+
+  const seen = new Set<string>();
+  const merged = rows.filter((entry) => {
+    const key = rowKey(entry.row);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  await writeLines(out, merged);
+  console.log(
+    `Wrote ${merged.length} rows to ${out} (${
+      rows.length - merged.length
+    } duplicates dropped)`
+  );
+}
+
+// `validate` fails a row whose reasoning is missing, whose final does not parse
+// or fit the ledger, whose ledger has too few tasks for the action, or whose
+// last assistant message differs from `final`. `stats` covers actions, styles,
+// languages, themes, prompt versions, augmentations, ledger sizes, turn counts
+// and word counts, and `merge` drops exact duplicates. All but `split` also
+// read LoRA files.
+const COMMANDS: Record<string, (files: string[]) => Promise<void>> = {
+  validate: runValidate,
+  stats: runStats,
+  sample: runSample,
+  split: runSplit,
+  merge: runMerge,
+};
+
+if (import.meta.main) {
+  const [command, ...files] = process.argv
+    .slice(2)
+    .filter((arg) => !arg.startsWith("--"));
+  const run = command ? COMMANDS[command] : undefined;
+
+  if (!run || files.length === 0) {
+    console.error(
+      `Usage: bun dataset-cli.ts <${Object.keys(COMMANDS).join(
+        "|"
+      )}> <file.jsonl>... [--n=] [--seed=] [--ratio=] [--out=] [--out-prefix=]`
+    );
+    process.exit(1);
+  }
+
+  await run(files);
+}
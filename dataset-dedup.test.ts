@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { applyDrops, findDuplicates, jaccard } from "./dataset-dedup";
+import type { DatasetRow } from "./dataset-rows";
+
+function makeRow(user: string, final: string, group?: string): DatasetRow {
+  return {
+    developer: "You are the orchestrator.",
+    tasks: [{ id: "task-12", summary: "Write spec", last_update: "Drafted" }],
+    user,
+    reasoning: "",
+    final,
+    messages: [
+      { content: "You are the orchestrator.", role: "system", thinking: null },
+      { content: user, role: "user", thinking: null },
+      { content: final, role: "assistant", thinking: null },
+    ],
+    ...(group ? { contrast: { set: "status-vs-update", group } } : {}),
+  };
+}
+
+describe("jaccard", () => {
+  test("measures the shared share of two sets", () => {
+    expect(jaccard(new Set(["a", "b"]), new Set(["b", "c"]))).toBe(1 / 3);
+    expect(jaccard(new Set(), new Set())).toBe(1);
+  });
+});
+
+describe("findDuplicates", () => {
+  test("keeps the first row of a near-duplicate cluster", () => {
+    const rows = [
+      makeRow("is the spec for task-12 done yet", "reply(Spec is drafted.)"),
+      makeRow("is the spec for task-14 done yet", "reply(Spec is drafted.)"),
+      makeRow("book a flight to lisbon", "start_task(Book a flight.)"),
+    ];
+    const splits = [{ split: "train", rows }];
+
+    const report = findDuplicates(splits, 0.8);
+
+    expect(report.clusters).toEqual([
+      { split: "train", keep: 0, duplicates: [{ index: 1, similarity: 1 }] },
+    ]);
+    expect(applyDrops(splits, report)[0]!.rows).toEqual([rows[0]!, rows[2]!]);
+  });
+
+  test("keeps one of two identical rows", () => {
+    const rows = [
+      makeRow("is the spec done yet", "reply(Spec is drafted.)"),
+      makeRow("is the spec done yet", "reply(Spec is drafted.)"),
+    ];
+    const splits = [{ split: "train", rows }];
+
+    const report = findDuplicates(splits, 0.8);
+
+    expect(report.drop).toEqual([{ split: "train", index: 1 }]);
+    expect(applyDrops(splits, report)[0]!.rows).toEqual([rows[0]!]);
+  });
+
+  test("flags rows in a later split that match an earlier one", () => {
+    const train = [makeRow("is the spec done yet", "reply(Spec is drafted.)")];
+    const test = [
+      makeRow("is the spec done yet", "reply(Spec is drafted.)"),
+      makeRow("book a flight to lisbon", "start_task(Book a flight.)"),
+    ];
+
+    const report = findDuplicates(
+      [
+        { split: "train", rows: train },
+        { split: "test", rows: test },
+      ],
+      0.8
+    );
+
+    expect(report.clusters).toEqual([]);
+    expect(report.leaks).toEqual([
+      {
+        split: "test",
+        index: 0,
+        matchSplit: "train",
+        matchIndex: 0,
+        similarity: 1,
+      },
+    ]);
+    expect(report.drop).toEqual([{ split: "test", index: 0 }]);
+  });
+
+  test("drops a leaked row together with its contrast siblings", () => {
+    const train = [makeRow("is the spec done yet", "reply(Spec is drafted.)")];
+    const test = [
+      makeRow("is the spec done yet", "reply(Spec is drafted.)", "g1"),
+      makeRow(
+        "the spec is done now",
+        "update_task(task-12, Spec finished.)",
+        "g1"
+      ),
+      makeRow("book a flight to lisbon", "start_task(Book a flight.)"),
+    ];
+    const splits = [
+      { split: "train", rows: train },
+      { split: "test", rows: test },
+    ];
+
+    const report = findDuplicates(splits, 0.8);
+    const [, kept] = applyDrops(splits, report);
+
+    expect(report.leaks).toHaveLength(1);
+    expect(kept!.rows).toEqual([test[2]!]);
+  });
+});
@@ -0,0 +1,341 @@
+import { writeFile } from "node:fs/promises";
+import {
+  isDerivedRow,
+  readDatasetRows,
+  rowFamily,
+  type DatasetRow,
+} from "./dataset-rows";
+
+export type SplitRows = {
+  split: string;
+  rows: DatasetRow[];
+};
+
+export type RowRef = {
+  split: string;
+  index: number;
+};
+
+export type DuplicateCluster = {
+  split: string;
+  keep: number;
+  duplicates: Array<{ index: number; similarity: number }>;
+};
+
+export type CrossSplitLeak = {
+  split: string;
+  index: number;
+  matchSplit: string;
+  matchIndex: number;
+  similarity: number;
+};
+
+export type DedupReport = {
+  threshold: number;
+  rows: Record<string, number>;
+  clusters: DuplicateCluster[];
+  leaks: CrossSplitLeak[];
+  drop: RowRef[];
+};
+
+const NUM_HASHES = 64;
+const BAND_SIZE = 4;
+const SHINGLE_SIZE = 3;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/task-\d+/g, "task-#")
+    .replace(/[^\p{L}\p{N}#\s-]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function shingles(field: string, text: string, into: Set<string>): void {
+  const words = normalize(text).split(" ").filter(Boolean);
+  if (words.length === 0) return;
+  if (words.length < SHINGLE_SIZE) {
+    into.add(`${field}:${words.join(" ")}`);
+    return;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    into.add(`${field}:${words.slice(i, i + SHINGLE_SIZE).join(" ")}`);
+  }
+}
+
+// Word 3-grams of the user message, the task summaries and the final, with
+// task ids masked so the same request against another ledger still matches.
+export function fingerprint(row: DatasetRow): Set<string> {
+  const set = new Set<string>();
+  shingles("u", row.user, set);
+  for (const task of row.tasks) shingles("t", task.summary, set);
+  shingles("f", row.final, set);
+  return set;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => ({
+  a: (fnv1a(`a${i}`) | 1) >>> 0,
+  b: fnv1a(`b${i}`),
+}));
+
+function minhash(set: Set<string>): Uint32Array {
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of set) {
+    const base = fnv1a(shingle);
+    HASH_SEEDS.forEach(({ a, b }, i) => {
+      const value = (Math.imul(base, a) + b) >>> 0;
+      if (value < signature[i]!) signature[i] = value;
+    });
+  }
+  return signature;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+type Entry = RowRef & {
+  order: number;
+  set: Set<string>;
+  family: string;
+  derived: boolean;
+};
+
+function related(first: Entry, second: Entry): boolean {
+  return (
+    first.split === second.split &&
+    first.family === second.family &&
+    (first.derived || second.derived)
+  );
+}
+
+function candidatePairs(entries: Entry[]): Array<[Entry, Entry]> {
+  const buckets = new Map<string, Entry[]>();
+  for (const entry of entries) {
+    const signature = minhash(entry.set);
+    for (let band = 0; band < NUM_HASHES / BAND_SIZE; band++) {
+      const slice = signature.slice(band * BAND_SIZE, (band + 1) * BAND_SIZE);
+      const key = `${band}:${slice.join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(entry);
+      else buckets.set(key, [entry]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: Array<[Entry, Entry]> = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [first, second] = [bucket[i]!, bucket[j]!].sort(
+          (x, y) => x.order - y.order
+        ) as [Entry, Entry];
+        const key = `${first.order}:${second.order}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pairs.push([first, second]);
+      }
+    }
+  }
+  return pairs;
+}
+
+// Candidate pairs come from MinHash banding and are confirmed with the exact
+// Jaccard similarity. Within a split the first row of each cluster is kept;
+// across splits, a row matching one in an earlier split is a leak. `--drop`
+// writes `<split>.dedup.jsonl` without the flagged rows.
+export function findDuplicates(
+  splits: SplitRows[],
+  threshold = 0.8
+): DedupReport {
+  const entries: Entry[] = [];
+  for (const { split, rows } of splits) {
+    rows.forEach((row, index) => {
+      entries.push({
+        split,
+        index,
+        order: entries.length,
+        set: fingerprint(row),
+        family: rowFamily(row),
+        derived: isDerivedRow(row),
+      });
+    });
+  }
+
+  const splitOrder = new Map(splits.map(({ split }, order) => [split, order]));
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]!));
+
+  const bestSimilarity = new Map<number, number>();
+  const leaks = new Map<number, CrossSplitLeak>();
+
+  for (const [first, second] of candidatePairs(entries)) {
+    if (related(first, second)) continue;
+    const similarity = jaccard(first.set, second.set);
+    if (similarity < threshold) continue;
+
+    if (first.split === second.split) {
+      parent[find(second.order)] = find(first.order);
+      bestSimilarity.set(
+        second.order,
+        Math.max(bestSimilarity.get(second.order) ?? 0, similarity)
+      );
+      continue;
+    }
+
+    const [reference, leaked] =
+      splitOrder.get(first.split)! <= splitOrder.get(second.split)!
+        ? [first, second]
+        : [second, first];
+    const existing = leaks.get(leaked.order);
+    if (!existing || existing.similarity < similarity) {
+      leaks.set(leaked.order, {
+        split: leaked.split,
+        index: leaked.index,
+        matchSplit: reference.split,
+        matchIndex: reference.index,
+        similarity,
+      });
+    }
+  }
+
+  const groups = new Map<number, Entry[]>();
+  for (const entry of entries) {
+    const root = find(entry.order);
+    const group = groups.get(root);
+    if (group) group.push(entry);
+    else groups.set(root, [entry]);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  const drop = new Map<number, RowRef>();
+  const kept = new Set<number>();
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const [keep, ...duplicates] = group;
+    kept.add(keep!.order);
+    clusters.push({
+      split: keep!.split,
+      keep: keep!.index,
+      duplicates: duplicates.map((entry) => ({
+        index: entry.index,
+        similarity: bestSimilarity.get(entry.order) ?? threshold,
+      })),
+    });
+    for (const entry of duplicates) {
+      drop.set(entry.order, { split: entry.split, index: entry.index });
+    }
+  }
+
+  for (const [order, leak] of leaks) {
+    drop.set(order, { split: leak.split, index: leak.index });
+  }
+
+  // Contrast siblings and augmented copies only make sense together, so a
+  // dropped row takes the rest of its family in the same split with it. Plain
+  // rows are their own family, which exact duplicates share, so only families
+  // with derived rows spread, and never onto the row a cluster keeps.
+  const familyKey = (entry: Entry) => `${entry.split}:${entry.family}`;
+  const derivedFamilies = new Set(
+    entries.filter((entry) => entry.derived).map(familyKey)
+  );
+  const droppedFamilies = new Set(
+    [...drop.keys()]
+      .map((order) => familyKey(entries[order]!))
+      .filter((family) => derivedFamilies.has(family))
+  );
+  for (const entry of entries) {
+    if (kept.has(entry.order)) continue;
+    if (droppedFamilies.has(familyKey(entry))) {
+      drop.set(entry.order, { split: entry.split, index: entry.index });
+    }
+  }
+
+  return {
+    threshold,
+    rows: Object.fromEntries(
+      splits.map(({ split, rows }) => [split, rows.length])
+    ),
+    clusters,
+    leaks: [...leaks.values()],
+    drop: [...drop.values()],
+  };
+}
+
+export function summarizeDedup(report: DedupReport): string {
+  const duplicateCount = report.clusters.reduce(
+    (sum, cluster) => sum + cluster.duplicates.length,
+    0
+  );
+  return `${report.clusters.length} duplicate clusters (${duplicateCount} rows) and ${report.leaks.length} cross-split leaks at similarity >= ${report.threshold}`;
+}
+
+export function applyDrops(splits: SplitRows[], report: DedupReport) {
+  const dropped = new Set(
+    report.drop.map(({ split, index }) => `${split}:${index}`)
+  );
+  return splits.map(({ split, rows }) => ({
+    split,
+    rows: rows.filter((_, index) => !dropped.has(`${split}:${index}`)),
+  }));
+}
+
+async function main() {
+  const threshold = Number(
+    process.argv.find((arg) => arg.startsWith("--threshold="))?.split("=")[1] ??
+      "0.8"
+  );
+  const reportPath = process.argv
+    .find((arg) => arg.startsWith("--report="))
+    ?.slice("--report=".length);
+  const drop = process.argv.includes("--drop");
+  const files = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+
+  if (files.length === 0) {
+    throw new Error(
+      "Usage: bun dataset-dedup.ts <train.jsonl> [test.jsonl...] [--threshold=0.8] [--report=path] [--drop]"
+    );
+  }
+
+  const splits = await Promise.all(
+    files.map(async (file) => ({
+      split: file,
+      rows: await readDatasetRows(file),
+    }))
+  );
+  const report = findDuplicates(splits, threshold);
+  console.log(summarizeDedup(report));
+
+  if (reportPath) {
+    await writeFile(reportPath, JSON.stringify(report, null, 2));
+    console.log(`Wrote dedup report to ${reportPath}`);
+  }
+
+  if (drop) {
+    for (const { split, rows } of applyDrops(splits, report)) {
+      const output = split.replace(/\.jsonl$/i, ".dedup.jsonl");
+      await writeFile(
+        output,
+        rows.map((row) => JSON.stringify(row)).join("\n") + "\n"
+      );
+      console.log(`Wrote ${rows.length} rows to ${output}`);
+    }
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkRoundTrip,
+  EXPORTERS,
+  getExporter,
+  type ExportOptions,
+} from "./dataset-export";
+import {
+  trainingSamples,
+  TOOL_CALLBACK_PREFIX,
+  type DatasetRow,
+} from "./dataset-rows";
+import { buildLedgerMessage } from "./intent-prompt";
+
+const tasks = [{ id: "task-1", summary: "Book venue", last_update: "Asked" }];
+const callback = `${TOOL_CALLBACK_PREFIX}Venue search is still running`;
+
+const row: DatasetRow = {
+  developer: "You are the orchestrator.",
+  tasks,
+  user: "any news?",
+  reasoning: "The search is still running.",
+  final: "noop()",
+  messages: [
+    { content: "You are the orchestrator.", role: "system", thinking: null },
+    { content: buildLedgerMessage(tasks), role: "system", thinking: null },
+    { content: callback, role: "system", thinking: null },
+    { content: "any news?", role: "user", thinking: null },
+    {
+      content: "noop()",
+      role: "assistant",
+      thinking: "The search is still running.",
+    },
+  ],
+};
+
+const [sample] = trainingSamples(row);
+
+describe("exporters", () => {
+  for (const exporter of EXPORTERS) {
+    for (const reasoning of [true, false]) {
+      const options: ExportOptions = { reasoning };
+
+      test(`${exporter.name} round-trips the label (${
+        reasoning ? "keep" : "drop"
+      } reasoning)`, () => {
+        const line = JSON.stringify(exporter.render(sample!, options));
+        const label = exporter.parse(JSON.parse(line));
+
+        expect(label).toEqual({
+          final: "noop()",
+          reasoning:
+            reasoning && exporter.keepsReasoning
+              ? "The search is still running."
+              : null,
+        });
+        expect(checkRoundTrip([row], exporter, options)).toEqual({
+          samples: 1,
+          failed: 0,
+          issues: [],
+        });
+      });
+    }
+  }
+
+  test("openai records carry only role and content", () => {
+    const record = getExporter("openai").render(sample!, { reasoning: true });
+    expect(record).toEqual({
+      messages: row.messages.map(({ role, content }) => ({ role, content })),
+    });
+  });
+
+  test("callbacks stay in the transcript, not the instructions", () => {
+    const alpaca = getExporter("alpaca").render(sample!, {
+      reasoning: false,
+    }) as { instruction: string; input: string };
+    expect(alpaca.instruction).not.toContain(callback);
+    expect(alpaca.input).toBe(`${callback}\nUser: any news?`);
+
+    const { text } = getExporter("harmony").render(sample!, {
+      reasoning: false,
+    }) as { text: string };
+    expect(text).toContain(
+      `${buildLedgerMessage(tasks)}<|end|><|start|>developer<|message|>${callback}<|end|>`
+    );
+  });
+});
@@ -0,0 +1,419 @@
+import { isDeepStrictEqual } from "node:util";
+import { parseFinal } from "./action-format";
+import {
+  instructionCount,
+  readDatasetRows,
+  trainingSamples,
+  type DatasetRow,
+  type MessageRecord,
+} from "./dataset-rows";
+
+export type ExportOptions = { reasoning: boolean };
+
+export type ExportedLabel = { final: string; reasoning: string | null };
+
+export type Exporter = {
+  name: string;
+  description: string;
+  // Whether the format has somewhere to put the teacher reasoning; formats
+  // without one always export without it.
+  keepsReasoning: boolean;
+  render(sample: MessageRecord[], options: ExportOptions): unknown;
+  parse(record: unknown): ExportedLabel;
+};
+
+type SplitSample = {
+  instructions: MessageRecord[];
+  turns: MessageRecord[];
+  answer: MessageRecord;
+};
+
+// The developer prompt and task ledger are the instructions; everything after
+// them up to the final answer is the turn history, with tool callbacks kept as
+// system messages even when they come before the first user message.
+function splitSample(sample: MessageRecord[]): SplitSample {
+  const answer = sample[sample.length - 1];
+  if (!answer || answer.role !== "assistant") {
+    throw new Error("Training sample must end with an assistant message");
+  }
+  const end = Math.min(instructionCount(sample), sample.length - 1);
+  return {
+    instructions: sample.slice(0, end),
+    turns: sample.slice(end, -1),
+    answer,
+  };
+}
+
+function answerReasoning(
+  answer: MessageRecord,
+  exporter: Exporter,
+  options: ExportOptions
+): string | null {
+  return exporter.keepsReasoning && options.reasoning && answer.thinking
+    ? answer.thinking
+    : null;
+}
+
+const THINK = /^<think>\n([\s\S]*?)\n<\/think>\n\n([\s\S]*)$/;
+
+function withThinkTags(final: string, reasoning: string | null): string {
+  return reasoning === null
+    ? final
+    : `<think>\n${reasoning}\n</think>\n\n${final}`;
+}
+
+function fromThinkTags(text: string): ExportedLabel {
+  const match = text.match(THINK);
+  return match
+    ? { final: match[2]!, reasoning: match[1]! }
+    : { final: text, reasoning: null };
+}
+
+function lastOf<T>(items: T[], what: string): T {
+  const item = items[items.length - 1];
+  if (item === undefined) throw new Error(`Record has no ${what}`);
+  return item;
+}
+
+const openai: Exporter = {
+  name: "openai",
+  description:
+    "OpenAI fine-tuning chat format; the format has no reasoning field, so reasoning is always dropped",
+  keepsReasoning: false,
+  render(sample) {
+    splitSample(sample); // rejects samples without a final answer
+    return {
+      messages: sample.map(({ role, content }) => ({ role, content })),
+    };
+  },
+  parse(record) {
+    const { messages } = record as {
+      messages: Array<{ role: string; content: string }>;
+    };
+    return { final: lastOf(messages, "messages").content, reasoning: null };
+  },
+};
+
+const SHAREGPT_ROLES: Record<MessageRecord["role"], string> = {
+  system: "system",
+  user: "human",
+  assistant: "gpt",
+};
+
+const sharegpt: Exporter = {
+  name: "sharegpt",
+  description:
+    "ShareGPT conversations; kept reasoning is wrapped in <think> tags before the answer",
+  keepsReasoning: true,
+  render(sample, options) {
+    const { answer } = splitSample(sample);
+    return {
+      conversations: [
+        ...sample.slice(0, -1).map(({ role, content }) => ({
+          from: SHAREGPT_ROLES[role],
+          value: content,
+        })),
+        {
+          from: "gpt",
+          value: withThinkTags(
+            answer.content,
+            answerReasoning(answer, sharegpt, options)
+          ),
+        },
+      ],
+    };
+  },
+  parse(record) {
+    const { conversations } = record as {
+      conversations: Array<{ from: string; value: string }>;
+    };
+    return fromThinkTags(lastOf(conversations, "conversations").value);
+  },
+};
+
+const ALPACA_SPEAKERS: Record<MessageRecord["role"], string> = {
+  system: "",
+  user: "User: ",
+  assistant: "Assistant: ",
+};
+
+const alpaca: Exporter = {
+  name: "alpaca",
+  description:
+    "Alpaca instruction/input/output; instructions hold the prompt and ledger, input the transcript",
+  keepsReasoning: true,
+  render(sample, options) {
+    const { instructions, turns, answer } = splitSample(sample);
+    return {
+      instruction: instructions.map((message) => message.content).join("\n\n"),
+      input: turns
+        .map((message) => `${ALPACA_SPEAKERS[message.role]}${message.content}`)
+        .join("\n"),
+      output: withThinkTags(
+        answer.content,
+        answerReasoning(answer, alpaca, options)
+      ),
+    };
+  },
+  parse(record) {
+    return fromThinkTags((record as { output: string }).output);
+  },
+};
+
+const HARMONY_SYSTEM =
+  "Reasoning: medium\n\n# Valid channels: analysis, final. Channel must be included for every message.";
+
+function harmonyMessage(header: string, content: string, end = "<|end|>") {
+  if (content.includes("<|")) {
+    throw new Error(
+      `Message contains a harmony control token: ${content.slice(0, 80)}`
+    );
+  }
+  return `<|start|>${header}<|message|>${content}${end}`;
+}
+
+// Reads the message that closes `text`, if it has the given header.
+function trailingHarmonyMessage(
+  text: string,
+  header: string,
+  end: string
+): { content: string; start: number } | null {
+  const marker = `<|start|>${header}<|message|>`;
+  const start = text.lastIndexOf(marker);
+  if (start === -1 || !text.endsWith(end)) return null;
+  const content = text.slice(start + marker.length, -end.length);
+  return content.includes("<|") ? null : { content, start };
+}
+
+// gpt-oss harmony text: the teacher reasoning goes in the `analysis` channel
+// and the command in the `final` channel.
+const harmony: Exporter = {
+  name: "harmony",
+  description:
+    "gpt-oss harmony text; kept reasoning goes in the analysis channel, the command in the final channel",
+  keepsReasoning: true,
+  render(sample, options) {
+    const { instructions, turns, answer } = splitSample(sample);
+    const reasoning = answerReasoning(answer, harmony, options);
+    const text = [
+      harmonyMessage("system", HARMONY_SYSTEM),
+      harmonyMessage(
+        "developer",
+        `# Instructions\n\n${instructions
+          .map((message) => message.content)
+          .join("\n\n")}`
+      ),
+      ...turns.map((message) =>
+        message.role === "assistant"
+          ? harmonyMessage("assistant<|channel|>final", message.content)
+          : harmonyMessage(
+              message.role === "user" ? "user" : "developer",
+              message.content
+            )
+      ),
+      ...(reasoning === null
+        ? []
+        : [harmonyMessage("assistant<|channel|>analysis", reasoning)]),
+      harmonyMessage("assistant<|channel|>final", answer.content, "<|return|>"),
+    ].join("");
+    return { text };
+  },
+  parse(record) {
+    const { text } = record as { text: string };
+    const final = trailingHarmonyMessage(
+      text,
+      "assistant<|channel|>final",
+      "<|return|>"
+    );
+    if (!final) {
+      throw new Error("Harmony text does not end with a final answer");
+    }
+    const analysis = trailingHarmonyMessage(
+      text.slice(0, final.start),
+      "assistant<|channel|>analysis",
+      "<|end|>"
+    );
+    return { final: final.content, reasoning: analysis?.content ?? null };
+  },
+};
+
+export const EXPORTERS: Exporter[] = [openai, sharegpt, alpaca, harmony];
+
+export function getExporter(name: string): Exporter {
+  const exporter = EXPORTERS.find((candidate) => candidate.name === name);
+  if (!exporter) {
+    throw new Error(
+      `Unknown export format '${name}'. Expected one of: ${EXPORTERS.map(
+        (candidate) => candidate.name
+      ).join(", ")}`
+    );
+  }
+  return exporter;
+}
+
+export function exportRows(
+  rows: DatasetRow[],
+  exporter: Exporter,
+  options: ExportOptions
+): unknown[] {
+  return rows.flatMap((row) =>
+    trainingSamples(row).map((sample) => exporter.render(sample, options))
+  );
+}
+
+// Renders every sample, serializes it, parses it back and compares the
+// decision (and the reasoning, when kept) with the source row.
+export function checkRoundTrip(
+  rows: DatasetRow[],
+  exporter: Exporter,
+  options: ExportOptions
+): { samples: number; failed: number; issues: string[] } {
+  let samples = 0;
+  let failed = 0;
+  const issues: string[] = [];
+  rows.forEach((row, index) => {
+    trainingSamples(row).forEach((sample, turn) => {
+      samples += 1;
+      const where = `row ${index + 1}${
+        row.turnLabels?.length ? ` turn ${turn + 1}` : ""
+      }`;
+      const { answer } = splitSample(sample);
+      const before = issues.length;
+      try {
+        const record = JSON.parse(
+          JSON.stringify(exporter.render(sample, options))
+        );
+        const label = exporter.parse(record);
+        if (
+          !isDeepStrictEqual(
+            parseFinal(label.final),
+            parseFinal(answer.content)
+          )
+        ) {
+          issues.push(`${where}: decision changed to '${label.final}'`);
+        }
+        const reasoning = answerReasoning(answer, exporter, options);
+        if (label.reasoning !== reasoning) {
+          issues.push(
+            `${where}: reasoning was ${
+              reasoning === null ? "not dropped" : "not preserved"
+            }`
+          );
+        }
+      } catch (error) {
+        issues.push(`${where}: ${(error as Error).message}`);
+      }
+      if (issues.length > before) failed += 1;
+    });
+  });
+  return { samples, failed, issues };
+}
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+export function parseReasoningMode(value: string | undefined): ExportOptions {
+  const mode = value ?? "keep";
+  if (mode !== "keep" && mode !== "drop") {
+    throw new Error(`--reasoning must be keep or drop, received '${mode}'`);
+  }
+  return { reasoning: mode === "keep" };
+}
+
+export async function writeExport(
+  filePath: string,
+  rows: DatasetRow[],
+  exporter: Exporter,
+  options: ExportOptions
+): Promise<number> {
+  const { issues } = checkRoundTrip(rows, exporter, options);
+  if (issues.length > 0) {
+    throw new Error(
+      `${exporter.name} export of ${filePath} would not preserve labels:\n${issues.join(
+        "\n"
+      )}`
+    );
+  }
+  const records = exportRows(rows, exporter, options);
+  await Bun.write(
+    filePath,
+    records.map((record) => JSON.stringify(record)).join("\n") + "\n"
+  );
+  return records.length;
+}
+
+async function runExport(files: string[]) {
+  const exporter = getExporter(readArg("format") ?? "openai");
+  const options = parseReasoningMode(readArg("reasoning"));
+  const out = readArg("out");
+  if (out && files.length > 1) {
+    throw new Error("--out only works with a single input file");
+  }
+  for (const file of files) {
+    const target =
+      out ?? file.replace(/\.jsonl$/i, "") + `.${exporter.name}.jsonl`;
+    const count = await writeExport(
+      target,
+      await readDatasetRows(file),
+      exporter,
+      options
+    );
+    console.log(
+      `Wrote ${count} ${exporter.name} samples (${
+        options.reasoning && exporter.keepsReasoning ? "with" : "without"
+      } reasoning) to ${target}`
+    );
+  }
+}
+
+async function runCheck(files: string[]) {
+  const rows = (await Promise.all(files.map(readDatasetRows))).flat();
+  let failed = false;
+  for (const exporter of EXPORTERS) {
+    for (const reasoning of exporter.keepsReasoning ? [true, false] : [false]) {
+      const {
+        samples,
+        failed: broken,
+        issues,
+      } = checkRoundTrip(rows, exporter, {
+        reasoning,
+      });
+      const label = `${exporter.name} (${reasoning ? "keep" : "drop"} reasoning)`;
+      console.log(
+        `${label}: ${samples - broken}/${samples} samples round-trip`
+      );
+      for (const issue of issues) console.error(`  ${issue}`);
+      failed ||= issues.length > 0;
+    }
+  }
+  if (failed) process.exit(1);
+}
+
+const COMMANDS: Record<string, (files: string[]) => Promise<void>> = {
+  export: runExport,
+  check: runCheck,
+};
+
+if (import.meta.main) {
+  const [command, ...files] = process.argv
+    .slice(2)
+    .filter((arg) => !arg.startsWith("--"));
+  const run = command ? COMMANDS[command] : undefined;
+
+  if (!run || files.length === 0) {
+    console.error(
+      `Usage: bun dataset-export.ts <${Object.keys(COMMANDS).join(
+        "|"
+      )}> <file.jsonl>... [--format=${EXPORTERS.map(
+        (exporter) => exporter.name
+      ).join("|")}] [--reasoning=keep|drop] [--out=]`
+    );
+    process.exit(1);
+  }
+
+  await run(files);
+}
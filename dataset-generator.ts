@@ -1,205 +1,280 @@
-import { readFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile } from "node:fs/promises";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-
-type TaskRecord = {
-  id: string;
-  summary: string;
-  last_update: string;
+import { formatFinal, parseActionFormat, parseFinal } from "./action-format";
+import { getAction } from "./action-registry";
+import {
+  describeLedger,
+  ledgerShapeOf,
+  planCoverage,
+  summarizeCoverage,
+  type CoverageEntry,
+  type LedgerShape,
+} from "./coverage-planner";
+import {
+  buildLedgerMessage,
+  type IntentDecision,
+  type TaskRecord,
+} from "./intent-prompt";
+import {
+  mergeInstructions,
+  TOOL_CALLBACK_PREFIX,
+  trainingSamples,
+  type ActionKind,
+  type ContrastGroup,
+  type DatasetRow,
+  type MessageRecord,
+  type TurnLabel,
+} from "./dataset-rows";
+import {
+  getExporter,
+  parseReasoningMode,
+  writeExport,
+  type ExportOptions,
+  type Exporter,
+} from "./dataset-export";
+import {
+  ensureTaskCount,
+  sanitizeTasks,
+  uniqueTaskIds,
+  validateFinal,
+  validateReasoning,
+} from "./dataset-validation";
+import {
+  applyDrops,
+  findDuplicates,
+  summarizeDedup,
+  type SplitRows,
+} from "./dataset-dedup";
+import {
+  journalPaths,
+  openGenerationJournal,
+  type GenerationJournal,
+  type JobSummary,
+} from "./generation-journal";
+import {
+  findLanguagePreset,
+  LANGUAGE_PRESETS,
+  loadGenerationConfig,
+  type ContrastSet,
+  type GenerationConfig,
+  type Language,
+  type MessageStyle,
+  type PartitionConfig,
+} from "./generation-config";
+import { createAimdLimiter } from "./adaptive-concurrency";
+import {
+  createUsageMeter,
+  emptyUsage,
+  findPrice,
+  formatTokens,
+  formatUsd,
+  mergeUsage,
+  shareUsage,
+  type UsageTotals,
+} from "./generation-cost";
+import {
+  createProvider,
+  isRetryable,
+  ProviderError,
+  providerConfigFromEnv,
+  type LLMProvider,
+  type ReasoningEffort,
+} from "./llm-provider";
+import { formatStamp, getPrompt, stampOf } from "./prompt-registry";
+import { createRandom, shuffle } from "./random";
+import {
+  QualityGateError,
+  checkContrastEdit,
+  runQualityChecks,
+  selectQualityChecks,
+  summarizeQuality,
+  type QualityFailure,
+  type QualityRecord,
+} from "./quality-gates";
+
+type TranscriptMessage = {
+  role: "user" | "assistant" | "tool";
+  content: string;
+  label: Omit<TurnLabel, "messageIndex"> | null;
 };
 
 type GenerationResult = {
   user: string;
   tasks: TaskRecord[];
+  transcript: TranscriptMessage[];
   reasoning: string;
+  decision: IntentDecision;
   final: string;
 };
 
-type DatasetRow = {
-  developer: string;
-  tasks: TaskRecord[];
-  user: string;
-  reasoning: string;
-  final: string;
-  messages: Array<{
-    content: string;
-    role: "system" | "user" | "assistant";
-    thinking: string | null;
-  }>;
-};
-
-type ActionKind =
-  | "reply"
-  | "start_task"
-  | "update_task"
-  | "cancel_task"
-  | "noop";
-
-type MessageStyle = {
-  name: string;
-  description: string;
-  shortHint: string;
-};
-
-type PartitionConfig = {
-  name: "train" | "test";
-  perAction: number;
-  output: string;
-};
+const OUTPUT_FORMAT = parseActionFormat(
+  process.argv.find((arg) => arg.startsWith("--format="))?.split("=")[1]
+);
+const TURNS = Number(
+  process.argv.find((arg) => arg.startsWith("--turns="))?.split("=")[1] ?? "1"
+);
+const LABEL_EVERY_TURN = process.argv.includes("--label-every-turn");
+const CONTRAST_GROUPS_ARG = process.argv
+  .find((arg) => arg.startsWith("--contrast-groups="))
+  ?.slice("--contrast-groups=".length);
+const LANGUAGES_ARG = process.argv
+  .find((arg) => arg.startsWith("--languages="))
+  ?.slice("--languages=".length);
+const RESUME = process.argv.includes("--resume");
+const SEED_ARG = process.argv
+  .find((arg) => arg.startsWith("--seed="))
+  ?.slice("--seed=".length);
+const BUDGET_ARG = process.argv
+  .find((arg) => arg.startsWith("--budget="))
+  ?.slice("--budget=".length);
+const DEDUP_MODE = (process.argv
+  .find((arg) => arg.startsWith("--dedup="))
+  ?.split("=")[1] ?? "report") as "report" | "drop" | "regenerate";
+const DEDUP_THRESHOLD = Number(
+  process.argv
+    .find((arg) => arg.startsWith("--dedup-threshold="))
+    ?.split("=")[1] ?? "0.8"
+);
+const MAX_DEDUP_ROUNDS = 2;
+
+let EXPORTERS: Exporter[];
+let EXPORT_OPTIONS: ExportOptions;
+try {
+  // `--export=openai,harmony --export-reasoning=drop` writes the exports next
+  // to the outputs, using the formats of `dataset-export.ts`.
+  EXPORTERS = (
+    process.argv
+      .find((arg) => arg.startsWith("--export="))
+      ?.slice("--export=".length) ?? ""
+  )
+    .split(",")
+    .filter(Boolean)
+    .map((name) => getExporter(name.trim()));
+  EXPORT_OPTIONS = parseReasoningMode(
+    process.argv
+      .find((arg) => arg.startsWith("--export-reasoning="))
+      ?.slice("--export-reasoning=".length)
+  );
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
 
-const MODEL = process.env.GPT_MODEL ?? "gpt-5";
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const DEFAULT_ROWS = 1000;
+if (!["report", "drop", "regenerate"].includes(DEDUP_MODE)) {
+  console.error("--dedup must be one of: report, drop, regenerate");
+  process.exit(1);
+}
 
-if (!OPENAI_API_KEY) {
-  console.error("Missing OPENAI_API_KEY environment variable");
+if (!Number.isInteger(TURNS) || TURNS < 1) {
+  console.error("--turns must be a positive integer");
   process.exit(1);
 }
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const developerPromptPath = join(__dirname, "intent_system_prompt.md");
+const CONFIG_PATH = process.argv
+  .find((arg) => arg.startsWith("--config="))
+  ?.slice("--config=".length);
+
+let config: GenerationConfig;
+try {
+  config = await loadGenerationConfig(CONFIG_PATH, __dirname);
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
 
-const DEVELOPERS_PROMPT = (await readFile(developerPromptPath, "utf8")).trim();
+const providerConfig = providerConfigFromEnv("GENERATION", {
+  provider: config.provider,
+  model: process.env.GPT_MODEL ?? config.model,
+});
+const REASONING_EFFORT =
+  (process.env.GENERATION_REASONING_EFFORT as ReasoningEffort | undefined) ??
+  config.reasoningEffort ??
+  undefined;
+
+let provider: LLMProvider;
+try {
+  provider = await createProvider(providerConfig);
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
 
-const ACTION_GUIDANCE: Record<
-  ActionKind,
-  {
-    validation: (final: string, tasks: TaskRecord[]) => boolean;
-    prompt: string;
+const DEVELOPER_PROMPT = getPrompt();
+
+const MANIFEST_PATH = join(config.outputDir, "intent-dataset-manifest.json");
+
+// The seed breaks ties in job planning and decides the scheduling order, and
+// every row carries it in `job` next to its theme, style, language and
+// attempts. A resumed run reuses the seed of the run it continues, so the job
+// plan (and therefore every globalIndex) stays the same.
+async function resolveSeed(): Promise<string> {
+  if (SEED_ARG) return SEED_ARG;
+  if (RESUME) {
+    try {
+      const manifest = JSON.parse(await readFile(MANIFEST_PATH, "utf8"));
+      if (typeof manifest.seed === "string") return manifest.seed;
+    } catch {
+      // No manifest from an earlier run; start from a fresh seed.
+    }
   }
-> = {
-  reply: {
-    validation: (final) => final.startsWith("reply(") && final.endsWith(")"),
-    prompt:
-      "Provide a concise assistant intent that directly addresses the user and does not alter existing tasks. Ensure the final string is exactly in the form reply(...).",
-  },
-  start_task: {
-    validation: (final) =>
-      final.startsWith("start_task(") && final.endsWith(")"),
-    prompt:
-      "Open a brand new task distinct from any existing ones. The final string must be start_task(...) with a clear objective for downstream agents.",
-  },
-  update_task: {
-    validation: (final, tasks) => {
-      if (!final.startsWith("update_task(") || !final.endsWith(")"))
-        return false;
-      const inside = final.slice("update_task(".length, -1);
-      const commaIndex = inside.indexOf(",");
-      if (commaIndex === -1) return false;
-      const taskId = inside.slice(0, commaIndex).trim();
-      return tasks.some((task) => task.id === taskId);
-    },
-    prompt:
-      "Select one existing task to progress. Reflect new information or next steps. The final string must be update_task(task-id, description). Include the exact task id from the task list.",
-  },
-  cancel_task: {
-    validation: (final, tasks) => {
-      if (!final.startsWith("cancel_task(") || !final.endsWith(")"))
-        return false;
-      const inside = final.slice("cancel_task(".length, -1);
-      const commaIndex = inside.indexOf(",");
-      if (commaIndex === -1) return false;
-      const taskId = inside.slice(0, commaIndex).trim();
-      return tasks.some((task) => task.id === taskId);
-    },
-    prompt:
-      "Identify a task that should be stopped and justify the cancellation. The final string must be cancel_task(task-id, reason). Reference an id from the provided tasks.",
-  },
-  noop: {
-    validation: (final) => final === "noop",
-    prompt:
-      "Choose noop only when multiple in-flight tools are still returning results and no outward action is warranted. The final string must be exactly noop (no punctuation or explanations).",
-  },
-};
-
-const ACTIONS = Object.keys(ACTION_GUIDANCE) as ActionKind[];
-
-const MESSAGE_STYLES: MessageStyle[] = [
-  {
-    name: "formal",
-    description:
-      "Well-structured business English with complete sentences and proper punctuation.",
-    shortHint: "formal complete sentences",
-  },
-  {
-    name: "minimal",
-    description:
-      "Extremely short or telegraphic phrasing (3-6 words), all lowercase, minimal or no punctuation.",
-    shortHint: "very short lowercase snippet",
-  },
-  {
-    name: "fragment",
-    description:
-      "Intentionally unfinished thought, trailing clause, or abruptly cut-off sentence, potentially ending mid-word.",
-    shortHint: "incomplete or truncated clause",
-  },
-  {
-    name: "casual",
-    description:
-      "Relaxed conversational tone with common abbreviations, mixed casing, and light filler words.",
-    shortHint: "casual conversational",
-  },
-  {
-    name: "urgent",
-    description:
-      "Short, urgent-sounding request with imperative language, may omit subjects or punctuation.",
-    shortHint: "urgent clipped command",
-  },
-];
+  return randomBytes(4).toString("hex");
+}
 
-const THEMES: Record<ActionKind, string[]> = {
-  reply: [
-    "Status reminder on deliverable",
-    "Clarifying timeline for project milestone",
-    "Responding to user gratitude and quick question",
-    "Handling simple factual question",
-    "Providing immediate reassurance after partial update",
-  ],
-  start_task: [
-    "New research initiative request",
-    "Planning upcoming event logistics",
-    "Launching product evaluation",
-    "Drafting policy or documentation",
-    "Coordinating multi-team rollout",
-  ],
-  update_task: [
-    "Vendor follow-up with new info",
-    "Technical issue reproduction progress",
-    "Pending approval status advance",
-    "Logistics arrangement milestone",
-    "Content creation status sync",
-  ],
-  cancel_task: [
-    "User retracts prior request",
-    "Task blocked by external decision",
-    "Requirements changed midstream",
-    "Duplicate initiative spotted",
-    "Budget removed for project",
-  ],
-  noop: [
-    "Awaiting signatures and data exports",
-    "Multiple investigation tools still running",
-    "External vendor automation mid-flight",
-    "Coordinated workflow waiting on webhook",
-    "Async compliance checks pending",
-  ],
-};
+const SEED = await resolveSeed();
 
-const basePartitions: PartitionConfig[] = [
-  {
-    name: "train",
-    perAction: DEFAULT_ROWS / ACTIONS.length,
-    output: "intent-dataset-train.jsonl",
-  },
-  {
-    name: "test",
-    perAction: DEFAULT_ROWS / (ACTIONS.length * 10),
-    output: "intent-dataset-test.jsonl",
-  },
-];
-
-const CONCURRENCY = Number(process.env.GENERATION_CONCURRENCY ?? "100");
-const MAX_ATTEMPTS = 4;
+const ACTIONS = Object.keys(config.actions) as ActionKind[];
+const CONTRAST_GROUPS = Number(
+  CONTRAST_GROUPS_ARG ?? config.contrast.groupsPerSet
+);
+if (!Number.isInteger(CONTRAST_GROUPS) || CONTRAST_GROUPS < 0) {
+  console.error("--contrast-groups must be a non-negative integer");
+  process.exit(1);
+}
+const LANGUAGES: Language[] = LANGUAGES_ARG
+  ? LANGUAGES_ARG.split(",").map((code) => {
+      const language =
+        config.languages.find((candidate) => candidate.code === code.trim()) ??
+        findLanguagePreset(code.trim());
+      if (!language) {
+        console.error(
+          `--languages: unknown language '${code}' (configured: ${config.languages
+            .map((candidate) => candidate.code)
+            .join(", ")}; presets: ${LANGUAGE_PRESETS.map(
+            (candidate) => candidate.code
+          ).join(", ")})`
+        );
+        process.exit(1);
+      }
+      return language;
+    })
+  : config.languages;
+const QUALITY_CHECKS = selectQualityChecks(config.qualityChecks);
+const qualityLog: QualityRecord[] = [];
+
+const BUDGET_USD =
+  BUDGET_ARG === undefined ? config.budgetUsd : Number(BUDGET_ARG);
+if (BUDGET_USD !== null && !(Number.isFinite(BUDGET_USD) && BUDGET_USD > 0)) {
+  console.error("--budget must be a positive number of US dollars");
+  process.exit(1);
+}
+const PRICE = findPrice(config.pricing, provider.model);
+if (!PRICE) {
+  if (BUDGET_USD !== null) {
+    console.error(
+      `No price for model ${provider.model}; add it to "pricing" in the generation config to use a budget`
+    );
+    process.exit(1);
+  }
+  console.warn(
+    `No price for model ${provider.model}; token usage is tracked but costs are reported as $0`
+  );
+}
+const meter = createUsageMeter(PRICE, BUDGET_USD);
+const limiter = createAimdLimiter({ max: config.concurrency });
+let unscheduledJobs = 0;
 
 const generationSystemPrompt = `You are a data generation assistant creating synthetic supervision examples for an intent-orchestration model. Use the provided developer prompt to stay consistent with reasoning expectations. Output JSON only—no commentary.`;
 
@@ -207,216 +282,535 @@ const staticPrefixMessages = [
   { role: "system" as const, content: generationSystemPrompt },
   {
     role: "system" as const,
-    content: `Developer prompt for grounding:\n${DEVELOPERS_PROMPT}`,
+    content: `Developer prompt for grounding:\n${DEVELOPER_PROMPT.content}`,
   },
 ];
 
 type Job = {
   action: ActionKind;
-  partition: PartitionConfig["name"];
+  partition: string;
   theme: string;
   index: number;
   globalIndex: number;
   messageStyle: MessageStyle;
+  language: Language;
+  ledger?: LedgerShape;
+  contrast?: ContrastGroup;
 };
 
-async function callGpt(jsonPrompt: string): Promise<string> {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: MODEL,
-      messages: [
-        ...staticPrefixMessages,
-        { role: "user", content: jsonPrompt },
-      ],
-    }),
+async function callGpt(
+  jsonPrompt: string,
+  usage: UsageTotals
+): Promise<string> {
+  const response = await limiter.run(async () => {
+    try {
+      const result = await provider.complete({
+        messages: [
+          ...staticPrefixMessages,
+          { role: "user", content: jsonPrompt },
+        ],
+        reasoningEffort: REASONING_EFFORT,
+      });
+      limiter.onSuccess();
+      return result;
+    } catch (error) {
+      if (
+        error instanceof ProviderError &&
+        (error.status === 429 || error.retryAfterMs !== null)
+      ) {
+        limiter.onRateLimit(error.retryAfterMs);
+      }
+      throw error;
+    }
   });
+  meter.record(response.usage, usage);
+  return response.content;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `OpenAI request failed: ${response.status} ${response.statusText} — ${errorText}`
-    );
+function retryDelayMs(error: Error, attempt: number): number {
+  if (error instanceof QualityGateError) return 0;
+  if (error instanceof ProviderError && error.retryAfterMs !== null) {
+    return error.retryAfterMs;
   }
+  const ceiling = Math.min(30_000, 500 * 2 ** (attempt - 1));
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+}
 
-  const payload: any = await response.json();
-  const content = payload?.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error("OpenAI response missing content");
+// Raised when the teacher's output cannot be read as a usable example; unlike
+// other non-provider errors it is worth another attempt.
+class OutputError extends Error {
+  constructor(cause: Error) {
+    super(cause.message, { cause });
+    this.name = "OutputError";
   }
+}
 
-  return content;
+function readOutput<T>(read: () => T): T {
+  try {
+    return read();
+  } catch (error) {
+    throw new OutputError(error as Error);
+  }
 }
 
 function extractJson(content: string): any {
   const jsonMatch = content.match(/```json\s*([\s\S]*?)```/i);
-  const raw = jsonMatch ? jsonMatch[1] : content;
+  const raw = jsonMatch?.[1] ?? content;
   return JSON.parse(raw);
 }
 
-function sanitizeTasks(tasks: any): TaskRecord[] {
-  if (!Array.isArray(tasks)) {
-    throw new Error("tasks must be an array");
+function sanitizeTranscript(messages: any): TranscriptMessage[] {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new Error("messages must be a non-empty array");
   }
 
-  return tasks.map((task, idx) => {
-    if (!task || typeof task !== "object") {
-      throw new Error(`Task at index ${idx} is invalid`);
+  const transcript = messages.map((message, idx): TranscriptMessage => {
+    const role = String(message?.role ?? "").trim();
+    if (role !== "user" && role !== "assistant" && role !== "tool") {
+      throw new Error(`Message at index ${idx} has invalid role '${role}'`);
     }
+    const content = String(message?.content ?? "").trim();
+    if (!content) throw new Error(`Message at index ${idx} is empty`);
 
-    const id = String(
-      task.id ?? task.task_id ?? task.identifier ?? "task-temp"
-    ).trim();
-    const summary = String(
-      task.summary ?? task.title ?? task.description ?? "Pending summary"
-    ).trim();
-    const lastUpdate = String(
-      task.last_update ?? task.lastUpdate ?? task.notes ?? "Awaiting details"
-    ).trim();
-
-    if (!id) throw new Error("Task id missing");
-    if (!summary) throw new Error("Task summary missing");
-    if (!lastUpdate) throw new Error("Task last_update missing");
+    let label: TranscriptMessage["label"] = null;
+    if (LABEL_EVERY_TURN && role !== "assistant" && idx < messages.length - 1) {
+      if (!message.label) {
+        throw new Error(`Message at index ${idx} is missing its label`);
+      }
+      const tasks = sanitizeTasks(message.label.tasks);
+      uniqueTaskIds(tasks);
+      label = {
+        tasks,
+        reasoning: validateReasoning(message.label.reasoning),
+        final: formatFinal(
+          validateFinal(null, message.label.final, tasks),
+          OUTPUT_FORMAT
+        ),
+      };
+    }
 
-    return {
-      id,
-      summary,
-      last_update: lastUpdate,
-    } satisfies TaskRecord;
+    return { role, content, label };
   });
-}
-
-function validateReasoning(reasoning: any): string {
-  const text = String(reasoning ?? "").trim();
-  if (!text) {
-    throw new Error("Reasoning is empty");
-  }
-
-  return text;
-}
 
-function validateFinal(
-  action: ActionKind,
-  final: any,
-  tasks: TaskRecord[]
-): string {
-  const text = String(final ?? "").trim();
-  if (!text) {
-    throw new Error("Final output is empty");
+  const last = transcript[transcript.length - 1]!;
+  if (last.role === "assistant") {
+    throw new Error("Transcript must end with a user or tool message");
   }
 
-  const isValid = ACTION_GUIDANCE[action].validation(text, tasks);
-  if (!isValid) {
-    throw new Error(
-      `Final command '${text}' failed validation for action ${action}`
-    );
+  const userTurns = transcript.filter(
+    (message) => message.role === "user"
+  ).length;
+  if (userTurns !== TURNS) {
+    throw new Error(`Expected ${TURNS} user turns, received ${userTurns}`);
   }
 
-  return text;
+  return transcript;
 }
 
-function ensureTaskCount(action: ActionKind, tasks: TaskRecord[]): void {
-  if (tasks.length === 0) {
-    throw new Error("At least one ongoing task is required");
-  }
-
-  if (
-    ["update_task", "cancel_task", "noop"].includes(action) &&
-    tasks.length < 2
-  ) {
-    throw new Error(
-      `${action} scenarios must include at least two ongoing tasks`
+function buildDatasetRow(
+  raw: GenerationResult,
+  job: Job,
+  attempts: number
+): DatasetRow {
+  const { user, tasks, transcript, reasoning, final } = raw;
+  const messages: MessageRecord[] = [
+    { content: DEVELOPER_PROMPT.content, role: "system", thinking: null },
+    {
+      content: buildLedgerMessage(tasks),
+      role: "system",
+      thinking: null,
+    },
+  ];
+  const turnLabels: TurnLabel[] = [];
+
+  for (const message of transcript) {
+    messages.push(
+      message.role === "tool"
+        ? {
+            content: `${TOOL_CALLBACK_PREFIX}${message.content}`,
+            role: "system",
+            thinking: null,
+          }
+        : { content: message.content, role: message.role, thinking: null }
     );
-  }
-}
-
-function uniqueTaskIds(tasks: TaskRecord[]): void {
-  const seen = new Set<string>();
-  for (const task of tasks) {
-    if (seen.has(task.id)) {
-      throw new Error(`Duplicate task id detected: ${task.id}`);
+    if (message.label) {
+      turnLabels.push({ messageIndex: messages.length - 1, ...message.label });
     }
-    seen.add(task.id);
   }
-}
 
-function buildDatasetRow(raw: GenerationResult): DatasetRow {
-  const { user, tasks, reasoning, final } = raw;
-  const tasksJson = JSON.stringify(tasks, null, 2);
+  messages.push({ content: final, role: "assistant", thinking: reasoning });
 
   return {
-    developer: DEVELOPERS_PROMPT,
+    developer: DEVELOPER_PROMPT.content,
     tasks,
     user,
     reasoning,
     final,
-    messages: [
-      { content: DEVELOPERS_PROMPT, role: "system", thinking: null },
-      {
-        content: `## Ongoing tasks:\n${tasksJson}`,
-        role: "system",
-        thinking: null,
-      },
-      { content: user, role: "user", thinking: null },
-      { content: final, role: "assistant", thinking: reasoning },
-    ],
+    messages,
+    ...(LABEL_EVERY_TURN ? { turnLabels } : {}),
+    prompt: stampOf(DEVELOPER_PROMPT),
+    language: job.language.code,
+    job: {
+      seed: SEED,
+      globalIndex: job.globalIndex,
+      partition: job.partition,
+      index: job.index,
+      theme: job.theme,
+      messageStyle: job.messageStyle.name,
+      language: job.language.code,
+      ...(job.ledger ? { ledger: job.ledger } : {}),
+      attempts,
+    },
+    ...(job.contrast ? { contrast: job.contrast } : {}),
   } satisfies DatasetRow;
 }
 
-async function generateExample(job: Job): Promise<GenerationResult> {
-  const { action, theme, partition, index, messageStyle } = job;
-  const actionGuidance = ACTION_GUIDANCE[action].prompt;
-  const taskCountHint = ["update_task", "cancel_task", "noop"].includes(action)
-    ? "Include 2-3 ongoing tasks so there is meaningful choice."
-    : "Include 1-3 ongoing tasks that feel realistic for the theme.";
+function labelHints() {
+  return {
+    labelShape: LABEL_EVERY_TURN
+      ? `, "label"?: { "tasks": [ ... ], "reasoning": string, "final": string }`
+      : "",
+    labelHint: LABEL_EVERY_TURN
+      ? "\n- Every user or tool message except the last carries a label: the task ledger as it stood at that point, the reasoning, and the action command the assistant chose right after that message. Labels may use any action."
+      : "",
+  };
+}
+
+function feedbackHint(feedback: string[]): string {
+  return feedback.length > 0
+    ? `\n\nA previous attempt was rejected by quality checks. Fix these problems:\n${feedback
+        .map((reason) => `- ${reason}`)
+        .join("\n")}`
+    : "";
+}
+
+function taskLanguage(language: Language): string {
+  return config.localizeTasks ? language.code : "en";
+}
+
+function languageHint(language: Language): string {
+  if (language.code === "en") {
+    return `- Write the user and assistant messages in English. ${language.description}`;
+  }
+  const tasks = config.localizeTasks
+    ? `Write task summaries and last_update fields in ${language.name} too.`
+    : "Keep task summaries, last_update fields and tool callbacks in English, as they come from English-language tools.";
+  return `- Write the user and assistant messages in ${language.name}. ${language.description} ${tasks} The reasoning and the final field stay in English.`;
+}
+
+function ledgerHint({ taskCount, targetPosition }: LedgerShape): string {
+  const count = `Include exactly ${taskCount} ongoing task${
+    taskCount === 1 ? "" : "s"
+  }.`;
+  if (targetPosition === null) return count;
+  return `${count} The task the final decision targets must be ${
+    targetPosition === "only" ? "the only" : `the ${targetPosition}`
+  } entry of the tasks array.`;
+}
+
+async function generateExample(
+  job: Job,
+  feedback: string[],
+  usage: UsageTotals
+): Promise<GenerationResult> {
+  const { action, theme, partition, messageStyle, language, ledger } = job;
+  const { prompt: actionGuidance, taskCount } = config.actions[action];
+  const taskCountHint = ledger
+    ? ledgerHint(ledger)
+    : `Include ${taskCount.min}-${taskCount.max} ongoing tasks ${
+        taskCount.min > 1
+          ? "so there is meaningful choice"
+          : "that feel realistic for the theme"
+      }.`;
+  const transcriptHint =
+    TURNS === 1
+      ? "- The messages array holds exactly one user message; add tool callbacks before it only when the scenario needs them."
+      : `- The messages array is a realistic history with exactly ${TURNS} user messages, interleaving assistant replies and tool callbacks (role "tool") where natural. Assistant replies are the user-facing messages the assistant already sent, not action commands.`;
+  const { labelShape, labelHint } = labelHints();
 
   const prompt = `Create a synthetic scenario for the ${partition} dataset split. Theme: ${theme}.
 The assistant must ultimately choose the intent '${action}'.
 
 Return a JSON object with the following shape:
 {
-  "user": string,
+  "messages": [ { "role": "user" | "assistant" | "tool", "content": string${labelShape} }, ... ],
   "tasks": [ { "id": string, "summary": string, "last_update": string }, ... ],
   "reasoning": string,
   "final": string
 }
 
 Constraints:
-- The scenario must be written in natural English.
-- The user message should reflect the theme and reference previous context when helpful.
+${transcriptHint}
+- The last message must be a user or tool message; the final field is the assistant's decision right after it.${labelHint}
 - ${taskCountHint}
-- Tasks should represent ongoing work only (omit any status field).
 - ${actionGuidance}
-- Reasoning should be a concise multi-step markdown bullet or numbered list referencing message context, task audit, option comparison, and decision rationale.
-- Ensure the reasoning mentions why alternative actions were not chosen.
-- The final field must comply exactly with the required format for the specified action.
-- For noop scenarios, emphasize multiple in-flight tool updates and why waiting is safest.
-- Keep ids in the format task-<number>.
-- Avoid mentioning the dataset or that this is synthetic.
-- Enforce the user message style: ${messageStyle.name} — ${messageStyle.description}. Include hallmarks such as ${messageStyle.shortHint}. Ensure the intent remains inferable even when phrasing is terse or truncated.`;
+${languageHint(language)}
+${config.constraints.map((constraint) => `- ${constraint}`).join("\n")}
+- Enforce the user message style: ${messageStyle.name} — ${messageStyle.description}. Include hallmarks such as ${messageStyle.shortHint}. Ensure the intent remains inferable even when phrasing is terse or truncated.${feedbackHint(feedback)}`;
 
-  const content = await callGpt(prompt);
-  const json = extractJson(content);
+  const content = await callGpt(prompt, usage);
+  return readOutput(() => {
+    const json = extractJson(content);
 
-  const user = String(json.user ?? "").trim();
-  if (!user) throw new Error("User message missing");
+    const transcript = sanitizeTranscript(json.messages);
+    const userMessages = transcript.filter(
+      (message) => message.role === "user"
+    );
+    const user = userMessages[userMessages.length - 1]?.content ?? "";
+    if (!user) throw new Error("User message missing");
 
-  const tasks = sanitizeTasks(json.tasks);
-  ensureTaskCount(action, tasks);
-  uniqueTaskIds(tasks);
+    const tasks = sanitizeTasks(json.tasks);
+    ensureTaskCount(action, tasks, taskCount);
+    uniqueTaskIds(tasks);
 
-  const reasoning = validateReasoning(json.reasoning);
-  const final = validateFinal(action, json.final, tasks);
+    const reasoning = validateReasoning(json.reasoning);
+    const decision = validateFinal(action, json.final, tasks);
+    const final = formatFinal(decision, OUTPUT_FORMAT);
 
-  return { user, tasks, reasoning, final } satisfies GenerationResult;
+    return {
+      user,
+      tasks,
+      transcript,
+      reasoning,
+      decision,
+      final,
+    } satisfies GenerationResult;
+  });
 }
 
-async function runJobs(jobs: Job[]): Promise<GenerationResult[]> {
-  const results: GenerationResult[] = new Array(jobs.length);
+function contrastSetFor(job: Job): ContrastSet {
+  const set = config.contrast.sets.find(
+    (candidate) => candidate.name === job.contrast?.set
+  );
+  if (!set) throw new Error(`Unknown contrast set '${job.contrast?.set}'`);
+  return set;
+}
+
+// One teacher call writes every variant of a contrast group, so the variants
+// share a ledger and history and differ only in the final user message.
+async function generateContrast(
+  unit: Job[],
+  feedback: string[],
+  usage: UsageTotals
+): Promise<GenerationResult[]> {
+  const { partition, theme, messageStyle, language } = unit[0]!;
+  const set = contrastSetFor(unit[0]!);
+  const ranges = unit.map((job) => config.actions[job.action].taskCount);
+  const min = Math.max(...ranges.map((range) => range.min));
+  const max = Math.max(min, Math.min(...ranges.map((range) => range.max)));
+  const { labelShape, labelHint } = labelHints();
+  const historyHint =
+    TURNS === 1
+      ? '- The messages array holds only the tool callbacks (role "tool") that arrive before the final user message; leave it empty when the scenario needs none.'
+      : `- The messages array is the shared history before the final user message, with exactly ${
+          TURNS - 1
+        } user messages, interleaving assistant replies and tool callbacks (role "tool") where natural.`;
+
+  const prompt = `Create a contrast set for the ${partition} dataset split. Theme: ${theme}.
+Scenario: ${set.description}
+Write ${unit.length} variants that share the same task ledger and conversation history and differ only in the final user message. Change as few words as possible between the variants; that small edit alone must flip the correct action:
+${unit
+  .map(
+    (job, i) =>
+      `${i + 1}. '${job.action}': ${
+        set.variants.find((variant) => variant.action === job.action)?.cue
+      }`
+  )
+  .join("\n")}
+
+Return a JSON object with the following shape:
+{
+  "messages": [ { "role": "user" | "assistant" | "tool", "content": string${labelShape} }, ... ],
+  "tasks": [ { "id": string, "summary": string, "last_update": string }, ... ],
+  "variants": [ { "action": string, "user": string, "reasoning": string, "final": string }, ... ]
+}
+
+Constraints:
+${historyHint}
+- The variants array follows the order above; each final field is the assistant's decision right after that variant's user message.${labelHint}
+- Include ${min}-${max} ongoing tasks so there is meaningful choice.
+${unit
+  .map((job) => `- For '${job.action}': ${config.actions[job.action].prompt}`)
+  .join("\n")}
+${languageHint(language)}
+${config.constraints.map((constraint) => `- ${constraint}`).join("\n")}
+- Enforce the style for every variant's user message: ${messageStyle.name} — ${messageStyle.description}. Include hallmarks such as ${messageStyle.shortHint}.${feedbackHint(feedback)}`;
+
+  const content = await callGpt(prompt, usage);
+  return readOutput(() => {
+    const json = extractJson(content);
+    const history = Array.isArray(json.messages) ? json.messages : [];
+    if (!Array.isArray(json.variants) || json.variants.length !== unit.length) {
+      throw new Error(
+        `Expected ${unit.length} contrast variants, received ${
+          Array.isArray(json.variants) ? json.variants.length : "none"
+        }`
+      );
+    }
+
+    const tasks = sanitizeTasks(json.tasks);
+    uniqueTaskIds(tasks);
+
+    return unit.map((job, i) => {
+      const variant = json.variants[i];
+      ensureTaskCount(job.action, tasks, { min, max });
+      const user = String(variant?.user ?? "").trim();
+      if (!user) {
+        throw new Error(`Contrast variant ${i + 1} has no user message`);
+      }
+
+      const transcript = sanitizeTranscript([
+        ...history,
+        { role: "user", content: user },
+      ]);
+      const reasoning = validateReasoning(variant.reasoning);
+      const decision = validateFinal(job.action, variant.final, tasks);
+      return {
+        user,
+        tasks,
+        transcript,
+        reasoning,
+        decision,
+        final: formatFinal(decision, OUTPUT_FORMAT),
+      } satisfies GenerationResult;
+    });
+  });
+}
+
+async function generateUnit(
+  unit: Job[],
+  feedback: string[],
+  usage: UsageTotals
+): Promise<GenerationResult[]> {
+  return unit[0]!.contrast
+    ? generateContrast(unit, feedback, usage)
+    : [await generateExample(unit[0]!, feedback, usage)];
+}
+
+function checkQuality(
+  job: Job,
+  attempt: number,
+  result: GenerationResult,
+  shared: QualityFailure[]
+): QualityFailure[] {
+  const checked = runQualityChecks(
+    {
+      action: job.action,
+      style: job.messageStyle.name,
+      language: job.language.code,
+      taskLanguage: taskLanguage(job.language),
+      user: result.user,
+      userMessages: result.transcript
+        .filter((message) => message.role === "user")
+        .map((message) => message.content),
+      contextMessages: result.transcript
+        .filter((message) => message.role !== "assistant")
+        .map((message) => message.content),
+      tasks: result.tasks,
+      ledger: job.ledger ?? null,
+      reasoning: result.reasoning,
+      decision: result.decision,
+    },
+    QUALITY_CHECKS
+  );
+  const failures = [
+    ...(job.contrast
+      ? checked.map((failure) => ({
+          ...failure,
+          message: `${job.action} variant: ${failure.message}`,
+        }))
+      : checked),
+    ...shared,
+  ];
+  qualityLog.push({
+    globalIndex: job.globalIndex,
+    partition: job.partition,
+    action: job.action,
+    style: job.messageStyle.name,
+    language: job.language.code,
+    attempt,
+    failures,
+  });
+  return failures;
+}
+
+function checkUnitQuality(
+  unit: Job[],
+  attempt: number,
+  results: GenerationResult[]
+): void {
+  const contrast =
+    unit.length > 1
+      ? checkContrastEdit(results.map((result) => result.user))
+      : null;
+  const failures = unit.flatMap((job, i) =>
+    checkQuality(job, attempt, results[i]!, contrast ? [contrast] : [])
+  );
+  const unique = [
+    ...new Map(failures.map((failure) => [failure.message, failure])).values(),
+  ];
+  if (unique.length > 0) throw new QualityGateError(unique);
+}
+
+function unitLabel(unit: Job[]): string {
+  const [job] = unit;
+  return job!.contrast
+    ? `${job!.partition}-${job!.contrast.group}`
+    : `${job!.partition}-${job!.action}#${job!.index}`;
+}
+
+function toUnits(jobs: Job[]): Job[][] {
+  const groups = new Map<string, Job[]>();
+  const units: Job[][] = [];
+  for (const job of jobs) {
+    const group = job.contrast?.group;
+    const unit = group ? groups.get(group) : undefined;
+    if (unit) {
+      unit.push(job);
+      continue;
+    }
+    const fresh = [job];
+    if (group) groups.set(group, fresh);
+    units.push(fresh);
+  }
+  return units.map((unit) =>
+    unit.sort((a, b) => a.globalIndex - b.globalIndex)
+  );
+}
+
+function withContrastSiblings(selected: Job[], all: Iterable<Job>): Job[] {
+  const groups = new Set(
+    selected.flatMap((job) => (job.contrast ? [job.contrast.group] : []))
+  );
+  const siblings = [...all].filter(
+    (job) => job.contrast && groups.has(job.contrast.group)
+  );
+  return [
+    ...new Map(
+      [...selected, ...siblings].map((job) => [job.globalIndex, job])
+    ).values(),
+  ];
+}
+
+function summarizeJob(job: Job): JobSummary {
+  return {
+    globalIndex: job.globalIndex,
+    action: job.action,
+    partition: job.partition,
+    theme: job.theme,
+    index: job.index,
+    messageStyle: job.messageStyle.name,
+    language: job.language.code,
+    ...(job.ledger ? { ledger: job.ledger } : {}),
+  };
+}
+
+async function runJobs(
+  jobs: Job[],
+  journal: GenerationJournal,
+  spent: UsageTotals
+): Promise<void> {
+  const units = toUnits(jobs);
   let pointer = 0;
   let completed = 0;
   let lastRender = 0;
@@ -435,40 +829,82 @@ async function runJobs(jobs: Job[]): Promise<GenerationResult[]> {
     const bar = `${"#".repeat(filled)}${"-".repeat(
       Math.max(0, barLength - filled)
     )}`;
+    const failures = journal.failed > 0 ? `, ${journal.failed} failed` : "";
+    const budget =
+      meter.budgetUsd === null ? "" : ` of ${formatUsd(meter.budgetUsd)}`;
     const message = `Progress [${bar}] ${(percent * 100).toFixed(
       1
-    )}% (${completed}/${total})`;
-    process.stdout.write(`\r${message.padEnd(80, " ")}`);
+    )}% (${completed}/${total}${failures}) ${formatTokens(
+      meter.totals.totalTokens
+    )} tokens, ${formatUsd(meter.totals.costUsd)}${budget}, concurrency ${
+      limiter.limit
+    }`;
+    process.stdout.write(`\r${message.padEnd(120, " ")}`);
   };
 
   async function worker(workerId: number) {
-    while (true) {
-      const currentIndex = pointer++;
-      if (currentIndex >= jobs.length) break;
-      const job = jobs[currentIndex];
+    while (!meter.exhausted) {
+      const unit = units[pointer++];
+      if (!unit) break;
 
-      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      let feedback: string[] = [];
+      const usage = emptyUsage();
+      for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
         try {
-          const result = await generateExample(job);
-          results[currentIndex] = result;
-          completed += 1;
+          const results = await generateUnit(unit, feedback, usage);
+          checkUnitQuality(unit, attempt, results);
+          for (const [i, job] of unit.entries()) {
+            await journal.record(
+              summarizeJob(job),
+              attempt,
+              buildDatasetRow(results[i]!, job, attempt),
+              shareUsage(usage, unit.length)
+            );
+          }
+          completed += unit.length;
           renderProgress();
           break;
         } catch (error) {
           const err = error as Error;
+          if (err instanceof QualityGateError) {
+            feedback = err.failures.map((failure) => failure.message);
+          }
           console.warn(
-            `Worker ${workerId} job ${job.partition}-${job.action}#${job.index} attempt ${attempt} failed: ${err.message}`
+            `Worker ${workerId} job ${unitLabel(
+              unit
+            )} attempt ${attempt} failed: ${err.message}`
           );
-          if (attempt === MAX_ATTEMPTS) {
-            throw err;
+          if (
+            attempt === config.maxAttempts ||
+            !(
+              isRetryable(err) ||
+              err instanceof OutputError ||
+              err instanceof QualityGateError
+            ) ||
+            meter.exhausted
+          ) {
+            for (const job of unit) {
+              await journal.deadLetter(
+                summarizeJob(job),
+                attempt,
+                err,
+                shareUsage(usage, unit.length)
+              );
+            }
+            completed += unit.length;
+            renderProgress();
+            break;
           }
-          await new Promise((resolve) => setTimeout(resolve, 500 * attempt));
+          await new Promise((resolve) =>
+            setTimeout(resolve, retryDelayMs(err, attempt))
+          );
         }
       }
+      mergeUsage(spent, usage);
     }
   }
 
-  const workers = Array.from({ length: CONCURRENCY }, (_, workerId) =>
+  const workers = Array.from({ length: config.concurrency }, (_, workerId) =>
     worker(workerId + 1)
   );
   await Promise.all(workers);
@@ -478,64 +914,90 @@ async function runJobs(jobs: Job[]): Promise<GenerationResult[]> {
     process.stdout.write("\n");
   }
 
-  return results;
-}
-
-function shuffle<T>(array: T[]): T[] {
-  for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [array[i], array[j]] = [array[j], array[i]];
+  const unscheduled = units
+    .slice(pointer)
+    .reduce((sum, unit) => sum + unit.length, 0);
+  if (unscheduled > 0) {
+    unscheduledJobs += unscheduled;
+    console.warn(
+      `Budget of ${formatUsd(
+        meter.budgetUsd!
+      )} reached; ${unscheduled} jobs were not scheduled`
+    );
   }
-  return array;
 }
 
+// Action jobs are spread over the weighted cross-product of theme, style,
+// language and ledger shape; contrast groups still rotate themes, styles and
+// languages. The seed breaks ties and decides the order jobs run in.
 function buildJobs(partition: PartitionConfig, offset: number): Job[] {
+  const random = createRandom(`${SEED}:${partition.name}`);
   const jobs: Job[] = [];
   let globalIndex = offset;
 
   ACTIONS.forEach((action) => {
-    const themes = THEMES[action];
-    for (let i = 0; i < partition.perAction; i++) {
-      const theme = themes[i % themes.length];
-      const messageStyle = MESSAGE_STYLES[i % MESSAGE_STYLES.length];
+    const { themes, taskCount } = config.actions[action];
+    const targetsTask = getAction(action).params.some(
+      (param) => param.kind === "task_id"
+    );
+    const cells = planCoverage(
+      {
+        themes,
+        styles: config.styles.map((style) => style.name),
+        languages: LANGUAGES.map((language) => language.code),
+        taskCount: {
+          min: targetsTask ? Math.max(1, taskCount.min) : taskCount.min,
+          max: taskCount.max,
+        },
+        targetsTask,
+      },
+      partition.perAction,
+      config.coverage.weights,
+      random
+    );
+    cells.forEach((cell, i) => {
       jobs.push({
         action,
         partition: partition.name,
-        theme,
+        theme: cell.theme,
         index: i,
         globalIndex,
-        messageStyle,
+        messageStyle: config.styles.find((style) => style.name === cell.style)!,
+        language: LANGUAGES.find(
+          (language) => language.code === cell.language
+        )!,
+        ledger: cell.ledger,
       });
       globalIndex += 1;
-    }
+    });
   });
 
-  return shuffle(jobs);
-}
-
-type MessageRecord = DatasetRow["messages"][number];
-
-function mergeMessages(messages: MessageRecord[]): MessageRecord[] {
-  const merged: MessageRecord[] = [];
-  for (const current of messages) {
-    const last = merged[merged.length - 1];
-    if (last && last.role === current.role) {
-      last.content = `${last.content}\n${current.content}`.trim();
-      if (current.thinking) {
-        const combined = last.thinking
-          ? `${last.thinking}\n${current.thinking}`.trim()
-          : current.thinking.trim();
-        last.thinking = combined.length > 0 ? combined : null;
+  config.contrast.sets.forEach((set) => {
+    const themes = shuffle([...set.themes], random);
+    const styles = shuffle([...config.styles], random);
+    const languages = shuffle([...LANGUAGES], random);
+    for (let i = 0; i < CONTRAST_GROUPS; i++) {
+      const contrast = {
+        set: set.name,
+        group: `${partition.name}-${set.name}-${i}`,
+      };
+      for (const variant of set.variants) {
+        jobs.push({
+          action: variant.action,
+          partition: partition.name,
+          theme: themes[i % themes.length]!,
+          index: i,
+          globalIndex,
+          messageStyle: styles[i % styles.length]!,
+          language: languages[i % languages.length]!,
+          contrast,
+        });
+        globalIndex += 1;
       }
-    } else {
-      merged.push({
-        content: current.content.trim(),
-        role: current.role,
-        thinking: current.thinking ? current.thinking.trim() || null : null,
-      });
     }
-  }
-  return merged;
+  });
+
+  return shuffle(jobs, random);
 }
 
 async function writeJsonl(filePath: string, rows: DatasetRow[]): Promise<void> {
@@ -549,9 +1011,10 @@ async function writeLoraJsonl(
 ): Promise<void> {
   const jsonl =
     rows
-      .map((row) =>
+      .flatMap(trainingSamples)
+      .map((messages) =>
         JSON.stringify({
-          messages: mergeMessages(row.messages),
+          messages: mergeInstructions(messages),
         })
       )
       .join("\n") + "\n";
@@ -560,7 +1023,7 @@ async function writeLoraJsonl(
 
 function parseOverride(): PartitionConfig[] {
   const overrideArg = process.argv.find((arg) => arg.startsWith("--rows="));
-  if (!overrideArg) return basePartitions;
+  if (!overrideArg) return config.partitions;
 
   const value = Number(overrideArg.split("=")[1]);
   if (!Number.isFinite(value) || value <= 0) {
@@ -581,26 +1044,339 @@ function parseOverride(): PartitionConfig[] {
   ];
 }
 
+type PartitionRun = {
+  partition: PartitionConfig;
+  outputPath: string;
+  journal: GenerationJournal;
+  jobs: Map<number, Job>;
+  usage: UsageTotals;
+};
+
+async function collectSplits(runs: PartitionRun[], warnStale = false) {
+  // Rows follow the seeded plan order rather than completion order, so two
+  // runs with the same seed produce comparable files. Journal entries from an
+  // earlier run with a different plan are left out.
+  const entries = await Promise.all(
+    runs.map(async (run) => {
+      const position = new Map(
+        [...run.jobs.keys()].map((globalIndex, i) => [globalIndex, i])
+      );
+      const journaled = await run.journal.entries();
+      const planned = journaled.filter((entry) =>
+        position.has(entry.job.globalIndex)
+      );
+      if (warnStale && planned.length < journaled.length) {
+        console.warn(
+          `Skipping ${journaled.length - planned.length} ${
+            run.partition.name
+          } journal rows that are not in the current plan`
+        );
+      }
+      return planned.sort(
+        (a, b) =>
+          position.get(a.job.globalIndex)! - position.get(b.job.globalIndex)!
+      );
+    })
+  );
+  const splits = runs.map((run, i) => ({
+    split: run.partition.name,
+    rows: entries[i]!.map((entry) => entry.row),
+  }));
+  return { entries, splits };
+}
+
+async function dedupeRuns(runs: PartitionRun[]): Promise<SplitRows[]> {
+  let { entries, splits } = await collectSplits(runs, true);
+  let report = findDuplicates(splits, DEDUP_THRESHOLD);
+  console.log(`\nDedup: ${summarizeDedup(report)}`);
+
+  for (
+    let round = 1;
+    DEDUP_MODE === "regenerate" &&
+    report.drop.length > 0 &&
+    round <= MAX_DEDUP_ROUNDS;
+    round++
+  ) {
+    console.log(
+      `Regenerating ${report.drop.length} duplicate or leaked rows (round ${round})`
+    );
+    for (const [i, run] of runs.entries()) {
+      const redo = withContrastSiblings(
+        report.drop
+          .filter((ref) => ref.split === run.partition.name)
+          .map((ref) => run.jobs.get(entries[i]![ref.index]!.job.globalIndex)!),
+        run.jobs.values()
+      );
+      await runJobs(redo, run.journal, run.usage);
+    }
+    ({ entries, splits } = await collectSplits(runs));
+    report = findDuplicates(splits, DEDUP_THRESHOLD);
+    console.log(`Dedup: ${summarizeDedup(report)}`);
+  }
+
+  const reportPath = join(config.outputDir, "intent-dataset-dedup-report.json");
+  await Bun.write(reportPath, JSON.stringify(report, null, 2));
+  console.log(`Wrote dedup report to ${reportPath}`);
+
+  return DEDUP_MODE === "report" ? splits : applyDrops(splits, report);
+}
+
+async function writeResolvedConfig(resolved: GenerationConfig) {
+  const configPath = join(config.outputDir, "intent-dataset-config.json");
+  const record = {
+    generatedAt: new Date().toISOString(),
+    configFile: CONFIG_PATH ?? null,
+    provider: { name: provider.name, model: provider.model },
+    prompt: stampOf(DEVELOPER_PROMPT),
+    options: {
+      format: OUTPUT_FORMAT,
+      turns: TURNS,
+      labelEveryTurn: LABEL_EVERY_TURN,
+      exports: EXPORTERS.map((exporter) => exporter.name),
+      exportReasoning: EXPORT_OPTIONS.reasoning,
+      resume: RESUME,
+      seed: SEED,
+      dedup: DEDUP_MODE,
+      dedupThreshold: DEDUP_THRESHOLD,
+      reasoningEffort: REASONING_EFFORT ?? null,
+    },
+    config: resolved,
+  };
+  await Bun.write(configPath, JSON.stringify(record, null, 2));
+  console.log(`Recorded resolved config to ${configPath}`);
+}
+
+type PartitionPlan = { partition: PartitionConfig; jobs: Job[] };
+
+function manifestRow(row: DatasetRow, line: number) {
+  const { job } = row;
+  if (!job) return { line, globalIndex: null };
+  return {
+    line,
+    globalIndex: job.globalIndex,
+    theme: job.theme,
+    messageStyle: job.messageStyle,
+    language: job.language,
+    attempts: job.attempts,
+  };
+}
+
+// Written once with the plan before generation starts and again with the
+// output rows once they are final.
+async function writeManifest(
+  plans: PartitionPlan[],
+  outputs: DatasetRow[][] | null
+) {
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    seed: SEED,
+    configFile: CONFIG_PATH ?? null,
+    provider: { name: provider.name, model: provider.model },
+    prompt: stampOf(DEVELOPER_PROMPT),
+    partitions: plans.map(({ partition, jobs }, i) => ({
+      name: partition.name,
+      output: partition.output,
+      jobs: [...jobs]
+        .sort((a, b) => a.globalIndex - b.globalIndex)
+        .map((job) => ({
+          ...summarizeJob(job),
+          ...(job.contrast ? { contrast: job.contrast.group } : {}),
+        })),
+      rows: outputs
+        ? outputs[i]!.map((row, j) => manifestRow(row, j + 1))
+        : null,
+    })),
+  };
+  await Bun.write(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+}
+
+function coverageEntry(job: Job, ledger: LedgerShape): CoverageEntry {
+  return {
+    action: job.action,
+    cell: {
+      theme: job.theme,
+      style: job.messageStyle.name,
+      language: job.language.code,
+      ledger,
+    },
+  };
+}
+
+// Compares the planned cells with the shapes the kept rows actually have, so
+// rows lost to failures, dedup or a drifting teacher show up as gaps.
+async function writeCoverageReport(runs: PartitionRun[], splits: SplitRows[]) {
+  const partitions = runs.map((run, i) => {
+    const planned = [...run.jobs.values()].flatMap((job) =>
+      job.ledger ? [coverageEntry(job, job.ledger)] : []
+    );
+    const generated = splits[i]!.rows.flatMap((row) => {
+      const job = row.job ? run.jobs.get(row.job.globalIndex) : undefined;
+      if (!job?.ledger) return [];
+      return [
+        coverageEntry(job, ledgerShapeOf(row.tasks, parseFinal(row.final))),
+      ];
+    });
+    return {
+      name: run.partition.name,
+      ...summarizeCoverage(planned, generated),
+    };
+  });
+
+  const reportPath = join(
+    config.outputDir,
+    "intent-dataset-coverage-report.json"
+  );
+  await Bun.write(
+    reportPath,
+    JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        weights: config.coverage.weights,
+        partitions,
+      },
+      null,
+      2
+    )
+  );
+  for (const partition of partitions) {
+    console.log(
+      `Coverage ${partition.name}: ${partition.filledCells}/${partition.plannedCells} planned cells filled, ${partition.underfilled.length} under-filled`
+    );
+    for (const cell of partition.underfilled.slice(0, 5)) {
+      console.log(
+        `  ${cell.action} | ${cell.theme} | ${cell.style} | ${
+          cell.language
+        } | ${describeLedger(cell)}: ${cell.generated}/${cell.planned}`
+      );
+    }
+    if (partition.underfilled.length > 5) {
+      console.log(`  ...and ${partition.underfilled.length - 5} more`);
+    }
+  }
+  console.log(`Wrote coverage report to ${reportPath}`);
+}
+
+async function writeRunSummary(runs: PartitionRun[]) {
+  const { totals } = meter;
+  const summaryPath = join(config.outputDir, "intent-dataset-run-summary.json");
+  const summary = {
+    generatedAt: new Date().toISOString(),
+    provider: { name: provider.name, model: provider.model },
+    price: PRICE,
+    budgetUsd: BUDGET_USD,
+    budgetReached: meter.exhausted,
+    unscheduledJobs,
+    totals,
+    partitions: Object.fromEntries(
+      runs.map((run) => [
+        run.partition.name,
+        { ...run.usage, failedJobs: run.journal.failed },
+      ])
+    ),
+    concurrency: limiter.snapshot(),
+  };
+  await Bun.write(summaryPath, JSON.stringify(summary, null, 2));
+  console.log(
+    `Usage: ${totals.calls} calls, ${formatTokens(
+      totals.totalTokens
+    )} tokens (${formatTokens(totals.reasoningTokens)} reasoning), ${formatUsd(
+      totals.costUsd
+    )}${
+      BUDGET_USD === null ? "" : ` of ${formatUsd(BUDGET_USD)}`
+    }; wrote run summary to ${summaryPath}`
+  );
+  if (unscheduledJobs > 0) {
+    console.warn(
+      `${unscheduledJobs} jobs were skipped by the budget; rerun with --resume and a higher --budget to finish`
+    );
+  }
+}
+
 async function main() {
-  console.log(`Using model ${MODEL} with concurrency ${CONCURRENCY}`);
+  console.log(
+    `Using ${provider.name} model ${provider.model} with concurrency up to ${config.concurrency} (${OUTPUT_FORMAT} format, prompt ${formatStamp(DEVELOPER_PROMPT)}, seed ${SEED})`
+  );
   const partitions = parseOverride();
+  await mkdir(config.outputDir, { recursive: true });
+  await writeResolvedConfig({
+    ...config,
+    partitions,
+    languages: LANGUAGES,
+    contrast: { ...config.contrast, groupsPerSet: CONTRAST_GROUPS },
+    budgetUsd: BUDGET_USD,
+  });
+
   let offset = 0;
+  const plans = partitions.map((partition) => {
+    const jobs = buildJobs(partition, offset);
+    offset += jobs.length;
+    return { partition, jobs };
+  });
+  await writeManifest(plans, null);
+  console.log(`Recorded job plan to ${MANIFEST_PATH}`);
 
-  for (const partition of partitions) {
+  const runs: PartitionRun[] = [];
+  for (const { partition, jobs } of plans) {
+    const contrastRows = jobs.filter((job) => job.contrast).length;
     console.log(
-      `\nGenerating ${partition.name} split (${
-        partition.perAction * ACTIONS.length
-      } rows)`
+      `\nGenerating ${partition.name} split (${jobs.length} rows${
+        contrastRows > 0 ? `, ${contrastRows} in contrast sets` : ""
+      })`
     );
-    const jobs = buildJobs(partition, offset);
-    const results = await runJobs(jobs);
+    const outputPath = join(config.outputDir, partition.output);
+    const paths = journalPaths(outputPath);
+    const journal = await openGenerationJournal({
+      journalPath: paths.journal,
+      deadLetterPath: paths.deadLetter,
+      resume: RESUME,
+    });
+
+    const pending = withContrastSiblings(
+      jobs.filter((job) => !journal.has(job.globalIndex)),
+      jobs
+    );
+    if (journal.resumed > 0) {
+      const done = jobs.filter((job) => journal.has(job.globalIndex)).length;
+      console.log(
+        `Resuming from ${paths.journal}: ${done} rows done, ${pending.length} to generate`
+      );
+    }
+    const usage = emptyUsage();
+    await runJobs(pending, journal, usage);
+    if (journal.failed > 0) {
+      console.warn(
+        `${journal.failed} ${partition.name} jobs failed permanently; see ${paths.deadLetter} and rerun with --resume`
+      );
+    }
 
-    const datasetRows = results.map(buildDatasetRow);
-    const outputPath = join(__dirname, partition.output);
+    runs.push({
+      partition,
+      outputPath,
+      journal,
+      jobs: new Map(jobs.map((job) => [job.globalIndex, job])),
+      usage,
+    });
+  }
+
+  const splits = await dedupeRuns(runs);
+
+  const qualityPath = join(
+    config.outputDir,
+    "intent-dataset-quality-report.json"
+  );
+  const quality = summarizeQuality(qualityLog, QUALITY_CHECKS);
+  await Bun.write(qualityPath, JSON.stringify(quality, null, 2));
+  console.log(
+    `Quality: ${quality.passed}/${quality.attempts} attempts passed; wrote report to ${qualityPath}`
+  );
+
+  for (const [i, run] of runs.entries()) {
+    const { partition, outputPath } = run;
+    const datasetRows = splits[i]!.rows;
     await writeJsonl(outputPath, datasetRows);
 
     const loraOutputPath = join(
-      __dirname,
+      config.outputDir,
       partition.output.replace(/\.jsonl$/i, "-lora.jsonl")
     );
     await writeLoraJsonl(loraOutputPath, datasetRows);
@@ -610,9 +1386,30 @@ async function main() {
     );
     console.log(`Wrote ${partition.name} LoRA data to ${loraOutputPath}`);
 
-    offset += results.length;
+    for (const exporter of EXPORTERS) {
+      const exportPath = join(
+        config.outputDir,
+        partition.output.replace(/\.jsonl$/i, `-${exporter.name}.jsonl`)
+      );
+      const count = await writeExport(
+        exportPath,
+        datasetRows,
+        exporter,
+        EXPORT_OPTIONS
+      );
+      console.log(
+        `Wrote ${count} ${partition.name} ${exporter.name} samples to ${exportPath}`
+      );
+    }
   }
 
+  await writeManifest(
+    plans,
+    splits.map((split) => split.rows)
+  );
+  console.log(`Recorded row-to-job mapping to ${MANIFEST_PATH}`);
+  await writeCoverageReport(runs, splits);
+  await writeRunSummary(runs);
   console.log("Dataset generation complete.");
 }
 
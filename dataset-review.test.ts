@@ -0,0 +1,152 @@
+import { describe, expect, test } from "bun:test";
+import type { DatasetRow } from "./dataset-rows";
+import {
+  applyVerdict,
+  summarizeAudit,
+  wilsonInterval,
+  type Audit,
+  type SampledRow,
+} from "./dataset-review";
+
+const tasks = [
+  { id: "task-12", summary: "Write spec", last_update: "Drafted" },
+];
+
+function makeRow(user: string, final: string): DatasetRow {
+  return {
+    developer: "You are the orchestrator.",
+    tasks,
+    user,
+    reasoning: "User asked about the spec; answer directly.",
+    final,
+    messages: [
+      { content: "You are the orchestrator.", role: "system", thinking: null },
+      { content: user, role: "user", thinking: null },
+      { content: final, role: "assistant", thinking: null },
+    ],
+  };
+}
+
+const sampled: SampledRow[] = [
+  { id: "a", line: 1, row: makeRow("is the spec done", "reply(Almost.)") },
+  { id: "b", line: 2, row: makeRow("spec is done", "reply(Great.)") },
+  {
+    id: "c",
+    line: 3,
+    row: makeRow("drop the spec", "cancel_task(task-12, Dropped.)"),
+  },
+];
+
+function makeAudit(): Audit {
+  return {
+    reviewPath: "/tmp/review.json",
+    review: {
+      dataset: "test.jsonl",
+      seed: "audit",
+      createdAt: "",
+      updatedAt: "",
+      sample: sampled.map(({ id, line }) => ({ id, line })),
+      verdicts: {},
+    },
+    all: sampled,
+    rows: new Map(sampled.map((entry) => [entry.id, entry])),
+    sampled,
+  };
+}
+
+describe("wilsonInterval", () => {
+  test("stays inside [0, 1] at perfect accuracy", () => {
+    const interval = wilsonInterval(100, 100)!;
+    expect(interval.high).toBeCloseTo(1, 10);
+    expect(interval.low).toBeCloseTo(0.963, 3);
+    expect(wilsonInterval(0, 0)).toBeNull();
+  });
+});
+
+describe("applyVerdict", () => {
+  test("records a correction with rewritten reasoning", () => {
+    const audit = makeAudit();
+    const verdict = applyVerdict(audit, {
+      id: "b",
+      verdict: "wrong",
+      action: "update_task",
+      final: "update_task(task-12, Spec finished.)",
+      reasoning: "User reports the spec is finished; record it on task-12.",
+    });
+    expect(verdict).toMatchObject({
+      action: "update_task",
+      final: "update_task(task-12, Spec finished.)",
+    });
+    expect(audit.review.verdicts.b).toBe(verdict);
+  });
+
+  test("refuses a new action that keeps the teacher reasoning", () => {
+    expect(() =>
+      applyVerdict(makeAudit(), {
+        id: "b",
+        verdict: "wrong",
+        action: "update_task",
+        final: "update_task(task-12, Spec finished.)",
+        reasoning: "User asked about the spec; answer directly.",
+      })
+    ).toThrow("Rewrite the reasoning");
+  });
+
+  test("refuses a new action without its final command", () => {
+    const audit = makeAudit();
+    expect(() =>
+      applyVerdict(audit, { id: "b", verdict: "wrong", action: "update_task" })
+    ).toThrow("Write the final command for update_task");
+    expect(audit.review.verdicts.b).toBeUndefined();
+  });
+
+  test("records a wrong row without a correction", () => {
+    const verdict = applyVerdict(makeAudit(), {
+      id: "a",
+      verdict: "wrong",
+      action: "reply",
+      note: "  Tone is off.  ",
+    });
+    expect(verdict).toMatchObject({ verdict: "wrong", note: "Tone is off." });
+    expect(verdict.action).toBeUndefined();
+    expect(verdict.final).toBeUndefined();
+  });
+
+  test("rejects bodies that do not match the verdict schema", () => {
+    expect(() =>
+      applyVerdict(makeAudit(), { id: "a", verdict: "maybe" })
+    ).toThrow("verdict");
+    expect(() =>
+      applyVerdict(makeAudit(), { id: "a", verdict: "wrong", action: "ask" })
+    ).toThrow("action");
+    expect(() => applyVerdict(makeAudit(), null)).toThrow();
+  });
+
+  test("refuses a correction that changes nothing", () => {
+    expect(() =>
+      applyVerdict(makeAudit(), {
+        id: "a",
+        verdict: "wrong",
+        action: "reply",
+        final: "reply(Almost.)",
+      })
+    ).toThrow("identical");
+  });
+});
+
+describe("summarizeAudit", () => {
+  test("reports accuracy per action and the corrections made", () => {
+    const summary = summarizeAudit(sampled, {
+      a: { verdict: "correct", reviewedAt: "" },
+      b: { verdict: "wrong", action: "update_task", reviewedAt: "" },
+    });
+    expect(summary.overall).toMatchObject({
+      sampled: 3,
+      reviewed: 2,
+      correct: 1,
+      accuracy: 0.5,
+    });
+    expect(summary.perAction.cancel_task).toMatchObject({ reviewed: 0 });
+    expect(summary.corrections).toEqual({ reply: { update_task: 1 } });
+  });
+});
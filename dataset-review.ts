@@ -0,0 +1,661 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { detectActionFormat, formatFinal } from "./action-format";
+import { ACTIONS, ACTION_NAMES, signature } from "./action-registry";
+import { actionOf, stratifiedSample } from "./dataset-cli";
+import {
+  conversationFromRow,
+  readDatasetRows,
+  rowId,
+  type ActionKind,
+  type DatasetRow,
+} from "./dataset-rows";
+import { validateFinal, validateReasoning } from "./dataset-validation";
+import { createRandom } from "./random";
+
+export type Verdict = {
+  verdict: "correct" | "wrong";
+  // Corrected label; only set when the reviewer fixed a wrong row.
+  action?: ActionKind;
+  final?: string;
+  reasoning?: string;
+  note?: string;
+  reviewedAt: string;
+};
+
+export type ReviewFile = {
+  dataset: string;
+  seed: string;
+  createdAt: string;
+  updatedAt: string;
+  sample: Array<{ id: string; line: number }>;
+  verdicts: Record<string, Verdict>;
+};
+
+export type SampledRow = { id: string; line: number; row: DatasetRow };
+
+type Interval = { low: number; high: number };
+
+type AccuracyStats = {
+  sampled: number;
+  reviewed: number;
+  correct: number;
+  accuracy: number | null;
+  interval: Interval | null;
+};
+
+const Z_95 = 1.96;
+
+// Wilson score interval; unlike the normal approximation it stays inside
+// [0, 1] and is usable at the 99%+ accuracies an audit is meant to confirm.
+export function wilsonInterval(
+  successes: number,
+  total: number,
+  z = Z_95
+): Interval | null {
+  if (total === 0) return null;
+  const p = successes / total;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * total)) / (1 + z2 / total);
+  const margin =
+    (z / (1 + z2 / total)) *
+    Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total));
+  return {
+    low: Math.max(0, center - margin),
+    high: Math.min(1, center + margin),
+  };
+}
+
+function accuracyStats(
+  sampled: SampledRow[],
+  verdicts: Record<string, Verdict>
+): AccuracyStats {
+  const reviewed = sampled.filter((entry) => verdicts[entry.id]);
+  const correct = reviewed.filter(
+    (entry) => verdicts[entry.id]!.verdict === "correct"
+  ).length;
+  return {
+    sampled: sampled.length,
+    reviewed: reviewed.length,
+    correct,
+    accuracy: reviewed.length === 0 ? null : correct / reviewed.length,
+    interval: wilsonInterval(correct, reviewed.length),
+  };
+}
+
+export function summarizeAudit(
+  sampled: SampledRow[],
+  verdicts: Record<string, Verdict>
+) {
+  const actions = [...new Set(sampled.map((entry) => actionOf(entry.row)))];
+  const corrections: Record<string, Record<string, number>> = {};
+  for (const entry of sampled) {
+    const verdict = verdicts[entry.id];
+    if (verdict?.verdict !== "wrong") continue;
+    const from = actionOf(entry.row);
+    const to = verdict.action ?? "uncorrected";
+    corrections[from] ??= {};
+    corrections[from][to] = (corrections[from][to] ?? 0) + 1;
+  }
+  return {
+    overall: accuracyStats(sampled, verdicts),
+    perAction: Object.fromEntries(
+      actions.sort().map((action) => [
+        action,
+        accuracyStats(
+          sampled.filter((entry) => actionOf(entry.row) === action),
+          verdicts
+        ),
+      ])
+    ),
+    corrections,
+  };
+}
+
+export type AuditSummary = ReturnType<typeof summarizeAudit>;
+
+function percent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+export function renderAudit(summary: AuditSummary): string {
+  const line = (label: string, stats: AccuracyStats) =>
+    `| ${label} | ${stats.reviewed}/${stats.sampled} | ${
+      stats.correct
+    } | ${percent(stats.accuracy)} | ${
+      stats.interval
+        ? `${percent(stats.interval.low)} – ${percent(stats.interval.high)}`
+        : "—"
+    } |`;
+  const corrections = Object.entries(summary.corrections).flatMap(
+    ([from, targets]) =>
+      Object.entries(targets).map(
+        ([to, count]) => `- ${from} → ${to}: ${count}`
+      )
+  );
+  return [
+    "| Action | Reviewed | Correct | Accuracy | 95% CI |",
+    "| --- | --- | --- | --- | --- |",
+    line("**all**", summary.overall),
+    ...Object.entries(summary.perAction).map(([action, stats]) =>
+      line(action, stats)
+    ),
+    ...(corrections.length > 0 ? ["", "Corrections:", ...corrections] : []),
+  ].join("\n");
+}
+
+function reviewPathFor(dataset: string): string {
+  return dataset.replace(/\.jsonl$/i, "") + ".review.json";
+}
+
+async function readReviewFile(path: string): Promise<ReviewFile | null> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as ReviewFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new Error(
+      `Could not read review file ${path}: ${(error as Error).message}`
+    );
+  }
+}
+
+async function writeReviewFile(path: string, review: ReviewFile) {
+  review.updatedAt = new Date().toISOString();
+  await Bun.write(path, JSON.stringify(review, null, 2));
+}
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+export type Audit = {
+  reviewPath: string;
+  review: ReviewFile;
+  all: SampledRow[];
+  rows: Map<string, SampledRow>;
+  sampled: SampledRow[];
+};
+
+// A review file pins its sample by row id, so reopening it (or reviewing a
+// reordered copy of the dataset) shows the same rows.
+async function openAudit(dataset: string, create: boolean): Promise<Audit> {
+  const reviewPath = readArg("review") ?? reviewPathFor(dataset);
+  const all = (await readDatasetRows(dataset)).map((row, i) => ({
+    id: rowId(row),
+    line: i + 1,
+    row,
+  }));
+  // Exact duplicates share an id; the first copy stands in for all of them.
+  const rows = new Map<string, SampledRow>();
+  for (const entry of all) {
+    if (!rows.has(entry.id)) rows.set(entry.id, entry);
+  }
+
+  let review = await readReviewFile(reviewPath);
+  if (!review) {
+    if (!create) throw new Error(`No review file at ${reviewPath}`);
+    const size = Number(readArg("sample") ?? "100");
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error("--sample must be a positive integer");
+    }
+    const seed = readArg("seed") ?? "audit";
+    const sample = stratifiedSample(
+      [...rows.values()],
+      size,
+      createRandom(seed)
+    );
+    const now = new Date().toISOString();
+    review = {
+      dataset,
+      seed,
+      createdAt: now,
+      updatedAt: now,
+      sample: sample.map(({ id, line }) => ({ id, line })),
+      verdicts: {},
+    };
+    await writeReviewFile(reviewPath, review);
+  } else if (readArg("sample") || readArg("seed")) {
+    console.warn(
+      `Reusing the sample in ${reviewPath}; --sample and --seed only apply to new reviews`
+    );
+  }
+
+  const missing = review.sample.filter(({ id }) => !rows.has(id));
+  if (missing.length > 0) {
+    throw new Error(
+      `${missing.length} sampled rows are no longer in ${dataset} (first was line ${missing[0]!.line}); start a new review with --review=`
+    );
+  }
+  return {
+    reviewPath,
+    review,
+    all,
+    rows,
+    sampled: review.sample.map(({ id }) => rows.get(id)!),
+  };
+}
+
+const verdictRequestSchema = z.object({
+  id: z.string(),
+  verdict: z.enum(["correct", "wrong"]),
+  action: z.enum(ACTION_NAMES).optional(),
+  final: z.string().optional(),
+  reasoning: z.string().optional(),
+  note: z.string().optional(),
+});
+
+export function applyVerdict(audit: Audit, body: unknown): Verdict {
+  const parsed = verdictRequestSchema.safeParse(body);
+  if (!parsed.success) throw new Error(z.prettifyError(parsed.error));
+  const request = parsed.data;
+  const entry = audit.rows.get(request.id);
+  if (!entry || !audit.review.sample.some(({ id }) => id === entry.id)) {
+    throw new Error("Unknown sampled row");
+  }
+  const verdict: Verdict = {
+    verdict: request.verdict,
+    reviewedAt: new Date().toISOString(),
+  };
+  const note = request.note?.trim();
+  if (note) verdict.note = note;
+
+  const { row } = entry;
+  const final = request.final?.trim();
+  if (verdict.verdict === "wrong" && final) {
+    const decision = validateFinal(request.action ?? null, final, row.tasks);
+    const formatted = formatFinal(decision, detectActionFormat(row.final));
+    const reasoning = request.reasoning?.trim() ?? "";
+    const rewritten = reasoning !== "" && reasoning !== row.reasoning.trim();
+    if (formatted === row.final.trim() && !rewritten) {
+      throw new Error("Correction is identical to the teacher label");
+    }
+    // The teacher reasoning argues for the teacher action, so it cannot be
+    // kept next to a corrected label that picks a different one.
+    if (decision.action !== actionOf(row) && !rewritten) {
+      throw new Error(
+        `Rewrite the reasoning for ${decision.action}; the teacher reasoning argues for ${actionOf(
+          row
+        )}`
+      );
+    }
+    verdict.action = decision.action;
+    verdict.final = formatted;
+    if (rewritten) verdict.reasoning = validateReasoning(reasoning);
+  } else if (
+    verdict.verdict === "wrong" &&
+    request.action &&
+    request.action !== actionOf(row)
+  ) {
+    // `apply` could only keep the teacher label, which still picks the old
+    // action, so a new action has to come with its final command.
+    throw new Error(
+      `Write the final command for ${request.action}; the teacher final uses ${actionOf(
+        row
+      )}`
+    );
+  }
+
+  audit.review.verdicts[entry.id] = verdict;
+  return verdict;
+}
+
+function sampledView(audit: Audit) {
+  return audit.sampled.map(({ id, line, row }) => ({
+    id,
+    line,
+    action: actionOf(row),
+    tasks: row.tasks,
+    conversation: conversationFromRow(row),
+    reasoning: row.reasoning,
+    final: row.final,
+    verdict: audit.review.verdicts[id] ?? null,
+  }));
+}
+
+const PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Dataset review</title>
+<style>
+  body { font: 14px/1.45 system-ui, sans-serif; margin: 0; display: grid; grid-template-columns: 1fr 340px; height: 100vh; }
+  main { overflow: auto; padding: 16px 24px; }
+  aside { overflow: auto; padding: 16px; background: #f5f5f4; border-left: 1px solid #ddd; }
+  h2 { font-size: 13px; text-transform: uppercase; color: #666; margin: 18px 0 6px; }
+  pre { white-space: pre-wrap; background: #fafaf9; border: 1px solid #e7e5e4; padding: 8px; margin: 0; }
+  .msg { margin: 4px 0; padding: 6px 8px; border-radius: 4px; background: #eef2ff; }
+  .msg.system { background: #f1f5f9; color: #475569; }
+  .msg.assistant { background: #ecfdf5; }
+  .role { font-weight: 600; margin-right: 6px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  td, th { text-align: left; padding: 3px 4px; border-bottom: 1px solid #e5e5e5; }
+  textarea { width: 100%; box-sizing: border-box; font: 13px ui-monospace, monospace; }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 10px; font-size: 12px; }
+  .correct { background: #bbf7d0; } .wrong { background: #fecaca; } .pending { background: #e5e5e5; }
+  #error { color: #b91c1c; }
+  kbd { background: #fff; border: 1px solid #ccc; border-radius: 3px; padding: 0 4px; font-size: 11px; }
+  #list span { cursor: pointer; display: inline-block; width: 12px; height: 12px; margin: 1px; border-radius: 2px; }
+  #list span.current { outline: 2px solid #1d4ed8; }
+</style>
+</head>
+<body>
+<main>
+  <div><strong id="position"></strong> <span id="status" class="badge"></span> <span id="meta"></span></div>
+  <h2>Ledger</h2><pre id="ledger"></pre>
+  <h2>Conversation</h2><div id="conversation"></div>
+  <h2>Teacher reasoning</h2><pre id="reasoning"></pre>
+  <h2>Teacher final</h2><pre id="final"></pre>
+  <h2>Correction</h2>
+  <div>
+    <select id="action"></select> <span id="signature"></span>
+    <p><textarea id="edit-final" rows="2" placeholder="Corrected final command"></textarea></p>
+    <p><textarea id="edit-reasoning" rows="6" placeholder="Corrected reasoning (optional)"></textarea></p>
+    <p><input id="note" placeholder="Note (optional)" style="width: 100%"></p>
+    <button id="save-wrong">Save as wrong</button> <span id="error"></span>
+  </div>
+</main>
+<aside>
+  <div id="list"></div>
+  <h2>Audit accuracy</h2><table id="summary"></table>
+  <h2>Shortcuts</h2>
+  <div><kbd>c</kbd> correct &nbsp; <kbd>w</kbd> wrong &nbsp; <kbd>1</kbd>–<kbd>9</kbd> pick action<br>
+  <kbd>e</kbd> edit final &nbsp; <kbd>Ctrl</kbd>+<kbd>Enter</kbd> save correction<br>
+  <kbd>j</kbd>/<kbd>k</kbd> next/previous &nbsp; <kbd>n</kbd> next unreviewed &nbsp; <kbd>Esc</kbd> leave editor</div>
+</aside>
+<script>
+let state = null;
+let index = 0;
+const $ = (id) => document.getElementById(id);
+const text = (value) => document.createTextNode(value);
+const pct = (value) => value === null ? "—" : (value * 100).toFixed(1) + "%";
+
+function el(tag, attrs, ...children) {
+  const node = document.createElement(tag);
+  Object.assign(node, attrs || {});
+  children.forEach((child) => node.append(child));
+  return node;
+}
+
+async function load() {
+  state = await (await fetch("/api/rows")).json();
+  $("action").replaceChildren(...state.actions.map((action, i) =>
+    el("option", { value: action.name, textContent: (i + 1) + ". " + action.name })));
+  const next = state.rows.findIndex((row) => !row.verdict);
+  render(next === -1 ? 0 : next);
+}
+
+function render(next) {
+  index = Math.max(0, Math.min(state.rows.length - 1, next));
+  const row = state.rows[index];
+  const verdict = row.verdict;
+  $("position").textContent = "Row " + (index + 1) + " of " + state.rows.length;
+  $("meta").textContent = state.dataset + ":" + row.line + " · " + row.action;
+  $("status").textContent = verdict ? verdict.verdict : "pending";
+  $("status").className = "badge " + (verdict ? verdict.verdict : "pending");
+  $("ledger").textContent = JSON.stringify(row.tasks, null, 2);
+  $("conversation").replaceChildren(...row.conversation.map((message) =>
+    el("div", { className: "msg " + message.role },
+      el("span", { className: "role", textContent: message.role }), text(message.content))));
+  $("reasoning").textContent = row.reasoning;
+  $("final").textContent = row.final;
+  $("action").value = (verdict && verdict.action) || row.action;
+  $("edit-final").value = (verdict && verdict.final) || row.final;
+  $("edit-reasoning").value = (verdict && verdict.reasoning) || row.reasoning;
+  $("note").value = (verdict && verdict.note) || "";
+  $("error").textContent = "";
+  showSignature();
+  renderList();
+  renderSummary(state.summary);
+}
+
+function showSignature() {
+  const action = state.actions.find((candidate) => candidate.name === $("action").value);
+  $("signature").textContent = action ? action.signature : "";
+}
+
+// A new action needs its own final, so an untouched final is replaced with
+// the signature of the picked action for the reviewer to fill in.
+function pickAction(name) {
+  const row = state.rows[index];
+  const untouched = [row.final.trim(), ...state.actions.map((action) => action.signature)]
+    .includes($("edit-final").value.trim());
+  $("action").value = name;
+  showSignature();
+  if (untouched) $("edit-final").value = name === row.action ? row.final : $("signature").textContent;
+}
+
+function renderList() {
+  $("list").replaceChildren(...state.rows.map((row, i) => {
+    const box = el("span", { title: (i + 1) + ": " + row.action,
+      className: (row.verdict ? row.verdict.verdict : "pending") + (i === index ? " current" : "") });
+    box.onclick = () => render(i);
+    return box;
+  }));
+}
+
+function renderSummary(summary) {
+  const line = (label, stats) => el("tr", {},
+    el("td", { textContent: label }),
+    el("td", { textContent: stats.correct + "/" + stats.reviewed }),
+    el("td", { textContent: pct(stats.accuracy) }),
+    el("td", { textContent: stats.interval ? pct(stats.interval.low) + "–" + pct(stats.interval.high) : "—" }));
+  $("summary").replaceChildren(
+    el("tr", {}, ...["Action", "Correct", "Acc.", "95% CI"].map((label) => el("th", { textContent: label }))),
+    line("all", summary.overall),
+    ...Object.entries(summary.perAction).map(([action, stats]) => line(action, stats)));
+}
+
+async function save(body, advance) {
+  const row = state.rows[index];
+  const response = await fetch("/api/verdict", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id: row.id, note: $("note").value, ...body }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    $("error").textContent = result.error;
+    return;
+  }
+  row.verdict = result.verdict;
+  state.summary = result.summary;
+  render(advance ? index + 1 : index);
+}
+
+function saveCorrection() {
+  const row = state.rows[index];
+  const edited = $("action").value !== row.action ||
+    $("edit-final").value.trim() !== row.final.trim() ||
+    $("edit-reasoning").value.trim() !== row.reasoning.trim();
+  save({
+    verdict: "wrong",
+    action: $("action").value,
+    ...(edited ? { final: $("edit-final").value, reasoning: $("edit-reasoning").value } : {}),
+  }, true);
+}
+
+$("action").onchange = () => pickAction($("action").value);
+$("save-wrong").onclick = saveCorrection;
+
+document.addEventListener("keydown", (event) => {
+  const editing = ["TEXTAREA", "INPUT", "SELECT"].includes(document.activeElement.tagName);
+  if (event.key === "Escape") return document.activeElement.blur();
+  if (editing) {
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      saveCorrection();
+    }
+    return;
+  }
+  if (event.ctrlKey || event.metaKey || event.altKey) return;
+  const action = state.actions[Number(event.key) - 1];
+  if (action) {
+    pickAction(action.name);
+    $("edit-final").focus();
+  } else if (event.key === "c") save({ verdict: "correct" }, true);
+  else if (event.key === "w") saveCorrection();
+  else if (event.key === "e") { event.preventDefault(); $("edit-final").focus(); }
+  else if (event.key === "j" || event.key === "ArrowRight") render(index + 1);
+  else if (event.key === "k" || event.key === "ArrowLeft") render(index - 1);
+  else if (event.key === "n") {
+    const next = state.rows.findIndex((row, i) => i > index && !row.verdict);
+    if (next !== -1) render(next);
+  }
+});
+
+load();
+</script>
+</body>
+</html>
+`;
+
+// Serves the review page on 127.0.0.1. Every verdict is written to the review
+// file as soon as it is saved, so the page can be closed at any time.
+async function runServe(files: string[]) {
+  const [dataset] = files;
+  const audit = await openAudit(dataset!, true);
+  const summary = () => summarizeAudit(audit.sampled, audit.review.verdicts);
+
+  const server = Bun.serve({
+    port: Number(readArg("port") ?? "8790"),
+    hostname: "127.0.0.1",
+    async fetch(req) {
+      const { pathname } = new URL(req.url);
+      if (pathname === "/" && req.method === "GET") {
+        return new Response(PAGE, {
+          headers: { "Content-Type": "text/html; charset=utf-8" },
+        });
+      }
+      if (pathname === "/api/rows" && req.method === "GET") {
+        return Response.json({
+          dataset: audit.review.dataset,
+          actions: ACTIONS.map((action) => ({
+            name: action.name,
+            signature: signature(action),
+          })),
+          rows: sampledView(audit),
+          summary: summary(),
+        });
+      }
+      if (pathname === "/api/verdict" && req.method === "POST") {
+        try {
+          const verdict = applyVerdict(audit, await req.json());
+          await writeReviewFile(audit.reviewPath, audit.review);
+          return Response.json({ verdict, summary: summary() });
+        } catch (error) {
+          return Response.json(
+            { error: (error as Error).message },
+            { status: 400 }
+          );
+        }
+      }
+      return new Response("Not found", { status: 404 });
+    },
+  });
+
+  console.log(
+    `Reviewing ${audit.sampled.length} sampled rows of ${dataset} at http://127.0.0.1:${server.port} (verdicts in ${audit.reviewPath})`
+  );
+}
+
+// Prints accuracy overall and per action with 95% Wilson intervals, plus the
+// action changes the reviewer made; --out also writes the summary as JSON.
+async function runReport(files: string[]) {
+  const audit = await openAudit(files[0]!, false);
+  const summary = summarizeAudit(audit.sampled, audit.review.verdicts);
+  console.log(renderAudit(summary));
+  const out = readArg("out");
+  if (out) {
+    await Bun.write(out, JSON.stringify(summary, null, 2));
+    console.log(`\nWrote audit summary to ${out}`);
+  }
+}
+
+// Writes the dataset with reviewer corrections applied to the label, the
+// reasoning and the closing assistant message. Rows marked wrong without a
+// correction keep the teacher label and are listed, unless --drop-wrong
+// removes them.
+async function runApply(files: string[]) {
+  const [dataset] = files;
+  const audit = await openAudit(dataset!, false);
+  const dropWrong = process.argv.includes("--drop-wrong");
+  const out =
+    readArg("out") ?? dataset!.replace(/\.jsonl$/i, "") + ".reviewed.jsonl";
+
+  let corrected = 0;
+  let dropped = 0;
+  const uncorrected: number[] = [];
+  const rows = audit.all.flatMap(({ id, line, row }) => {
+    const verdict = audit.review.verdicts[id];
+    if (verdict?.verdict !== "wrong") return [row];
+    if (!verdict.final) {
+      if (!dropWrong) {
+        uncorrected.push(line);
+        return [row];
+      }
+      dropped += 1;
+      return [];
+    }
+    corrected += 1;
+    const reasoning = verdict.reasoning ?? row.reasoning;
+    const messages = [...row.messages];
+    const last = messages[messages.length - 1];
+    if (last?.role === "assistant") {
+      messages[messages.length - 1] = {
+        ...last,
+        content: verdict.final,
+        thinking: reasoning,
+      };
+    }
+    return [{ ...row, final: verdict.final, reasoning, messages }];
+  });
+
+  await Bun.write(
+    out,
+    rows.map((row) => JSON.stringify(row)).join("\n") + "\n"
+  );
+  console.log(
+    `Wrote ${rows.length} rows to ${out} (${corrected} corrected${
+      dropWrong ? `, ${dropped} dropped` : ""
+    })`
+  );
+  if (uncorrected.length > 0) {
+    console.warn(
+      `${uncorrected.length} rows marked wrong have no correction and keep the teacher label (lines ${uncorrected.join(
+        ", "
+      )}); correct them or pass --drop-wrong`
+    );
+  }
+}
+
+const COMMANDS: Record<string, (files: string[]) => Promise<void>> = {
+  serve: runServe,
+  report: runReport,
+  apply: runApply,
+};
+
+if (import.meta.main) {
+  const [command, ...files] = process.argv
+    .slice(2)
+    .filter((arg) => !arg.startsWith("--"));
+  const run = command ? COMMANDS[command] : undefined;
+
+  if (!run || files.length !== 1) {
+    console.error(
+      `Usage: bun dataset-review.ts <${Object.keys(COMMANDS).join(
+        "|"
+      )}> <file.jsonl> [--sample=100] [--seed=] [--review=] [--port=8790] [--out=] [--drop-wrong]`
+    );
+    process.exit(1);
+  }
+
+  try {
+    await run(files);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
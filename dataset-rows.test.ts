@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import {
+  mergeInstructions,
+  parseDatasetLine,
+  rowFamily,
+  TOOL_CALLBACK_PREFIX,
+  type MessageRecord,
+} from "./dataset-rows";
+import { buildLedgerMessage } from "./intent-prompt";
+
+const tasks = [{ id: "task-1", summary: "Book venue", last_update: "Asked" }];
+
+const messages: MessageRecord[] = [
+  { content: "You are the orchestrator.", role: "system", thinking: null },
+  { content: buildLedgerMessage(tasks), role: "system", thinking: null },
+  {
+    content: `${TOOL_CALLBACK_PREFIX}Venue search is still running`,
+    role: "system",
+    thinking: null,
+  },
+  { content: "any news?", role: "user", thinking: null },
+  {
+    content: "noop()",
+    role: "assistant",
+    thinking: "The search is still running.",
+  },
+];
+
+describe("mergeInstructions", () => {
+  test("folds only the developer prompt and the ledger together", () => {
+    const merged = mergeInstructions(messages);
+    expect(merged).toHaveLength(4);
+    expect(merged[0]!.content).toBe(
+      `You are the orchestrator.\n${buildLedgerMessage(tasks)}`
+    );
+    expect(merged[1]!.content).toStartWith(TOOL_CALLBACK_PREFIX);
+  });
+});
+
+describe("parseDatasetLine", () => {
+  test("reads a LoRA line back with callbacks kept as turns", () => {
+    const row = parseDatasetLine(
+      JSON.stringify({ messages: mergeInstructions(messages) })
+    );
+    expect(row.developer).toBe("You are the orchestrator.");
+    expect(row.tasks).toEqual(tasks);
+    expect(row.user).toBe("any news?");
+    expect(row.final).toBe("noop()");
+    expect(row.messages).toEqual(messages);
+  });
+
+  test("keeps full rows as they are", () => {
+    const row = {
+      developer: "You are the orchestrator.",
+      tasks,
+      user: "any news?",
+      reasoning: "",
+      final: "noop()",
+      messages,
+    };
+    expect(parseDatasetLine(JSON.stringify(row))).toEqual(row);
+  });
+});
+
+describe("rowFamily", () => {
+  test("groups contrast siblings and augmented copies", () => {
+    const row = parseDatasetLine(JSON.stringify({ messages }));
+    expect(rowFamily({ ...row, contrast: { set: "s", group: "g1" } })).toBe(
+      "g1"
+    );
+    expect(
+      rowFamily({ ...row, augmentation: { source: "abc", transforms: [] } })
+    ).toBe("abc");
+  });
+});
@@ -0,0 +1,233 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import type { LedgerShape } from "./coverage-planner";
+import {
+  buildLedgerMessage,
+  LEDGER_HEADER,
+  type TaskRecord,
+} from "./intent-prompt";
+import { stampForContent, type PromptStamp } from "./prompt-registry";
+
+export type { ActionKind } from "./action-registry";
+
+export type MessageRecord = {
+  content: string;
+  role: "system" | "user" | "assistant";
+  thinking: string | null;
+};
+
+export type TurnLabel = {
+  messageIndex: number;
+  tasks: TaskRecord[];
+  reasoning: string;
+  final: string;
+};
+
+export type Augmentation = {
+  source: string;
+  transforms: string[];
+  // Contrast group of the source row; augmented copies drop `contrast`.
+  group?: string;
+};
+
+// Siblings in a group are never compared with each other by dedup, and eval
+// counts a group as solved only when every sibling is right.
+export type ContrastGroup = {
+  set: string;
+  group: string;
+};
+
+// The generation job that produced a row, so a run can be audited and
+// reproduced from its seed.
+export type RowJob = {
+  seed: string;
+  globalIndex: number;
+  partition: string;
+  index: number;
+  theme: string;
+  messageStyle: string;
+  language: string;
+  ledger?: LedgerShape;
+  attempts: number;
+};
+
+export type DatasetRow = {
+  developer: string;
+  tasks: TaskRecord[];
+  user: string;
+  reasoning: string;
+  final: string;
+  messages: MessageRecord[];
+  turnLabels?: TurnLabel[];
+  prompt?: PromptStamp;
+  language?: string;
+  job?: RowJob;
+  augmentation?: Augmentation;
+  contrast?: ContrastGroup;
+};
+
+// Tool callbacks are stored as system messages after the developer prompt and
+// the ledger, and they stay turns of their own in the LoRA file.
+export const TOOL_CALLBACK_PREFIX = "Tool callback: ";
+
+function parseLedger(content: string): TaskRecord[] {
+  const start = content.indexOf(LEDGER_HEADER);
+  if (start === -1) return [];
+  const json = content.slice(start + LEDGER_HEADER.length).trim();
+  const end = json.lastIndexOf("]");
+  return JSON.parse(json.slice(0, end + 1)) as TaskRecord[];
+}
+
+// Rows open with the developer prompt and the ledger message, either as two
+// system messages or merged into one. Anything after them is a turn, including
+// tool callbacks that arrive before the first user message.
+export function instructionCount(messages: MessageRecord[]): number {
+  const [first, second] = messages;
+  if (first?.role !== "system") return 0;
+  if (first.content.includes(LEDGER_HEADER)) return 1;
+  return second?.role === "system" && second.content.startsWith(LEDGER_HEADER)
+    ? 2
+    : 1;
+}
+
+// Folds the developer prompt and the ledger into one system message; every
+// later message, tool callbacks included, stays its own turn.
+export function mergeInstructions(messages: MessageRecord[]): MessageRecord[] {
+  const prefixLength = instructionCount(messages);
+  const merged: MessageRecord[] = [];
+
+  messages.forEach((current, index) => {
+    const last = merged[merged.length - 1];
+    if (last && index < prefixLength) {
+      last.content = `${last.content}\n${current.content}`.trim();
+    } else {
+      merged.push({
+        content: current.content.trim(),
+        role: current.role,
+        thinking: current.thinking ? current.thinking.trim() || null : null,
+      });
+    }
+  });
+  return merged;
+}
+
+function rowFromLora(messages: MessageRecord[]): DatasetRow {
+  const prefix = messages.slice(0, instructionCount(messages));
+  const transcript = messages.slice(prefix.length);
+
+  const ledgerMessage = prefix.find((message) =>
+    message.content.includes(LEDGER_HEADER)
+  );
+  const tasks = ledgerMessage ? parseLedger(ledgerMessage.content) : [];
+  const developer = (prefix[0]?.content ?? "").split(LEDGER_HEADER)[0]!.trim();
+
+  const last = transcript[transcript.length - 1];
+  if (!last || last.role !== "assistant") {
+    throw new Error("LoRA row must end with an assistant message");
+  }
+
+  const users = transcript.filter((message) => message.role === "user");
+
+  return {
+    developer,
+    tasks,
+    user: users[users.length - 1]?.content ?? "",
+    reasoning: last.thinking ?? "",
+    final: last.content,
+    messages: [
+      { content: developer, role: "system", thinking: null },
+      { content: buildLedgerMessage(tasks), role: "system", thinking: null },
+      ...transcript,
+    ],
+    prompt: stampForContent(developer),
+  };
+}
+
+export function parseDatasetLine(line: string): DatasetRow {
+  const json = JSON.parse(line);
+  if (typeof json.final === "string" && Array.isArray(json.tasks)) {
+    return json as DatasetRow;
+  }
+  if (Array.isArray(json.messages)) {
+    return rowFromLora(json.messages as MessageRecord[]);
+  }
+  throw new Error("Unrecognized dataset row format");
+}
+
+export function rowPrompt(row: DatasetRow): PromptStamp {
+  return row.prompt ?? stampForContent(row.developer);
+}
+
+export async function readDatasetRows(filePath: string): Promise<DatasetRow[]> {
+  const text = await readFile(filePath, "utf8");
+  const rows: DatasetRow[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      rows.push(parseDatasetLine(line));
+    } catch (error) {
+      throw new Error(`${filePath}:${index + 1} — ${(error as Error).message}`);
+    }
+  });
+  return rows;
+}
+
+export function conversationFromRow(
+  row: DatasetRow
+): Array<{ role: MessageRecord["role"]; content: string }> {
+  const conversation = row.messages.filter(
+    (message) =>
+      !(
+        message.role === "system" &&
+        (message.content === row.developer ||
+          message.content.startsWith(LEDGER_HEADER))
+      )
+  );
+  const last = conversation[conversation.length - 1];
+  if (last?.role === "assistant") conversation.pop();
+  return conversation.map(({ role, content }) => ({ role, content }));
+}
+
+// One sample per labeled turn, each ending with the assistant decision for
+// that turn; the last sample is the full row.
+export function trainingSamples(row: DatasetRow): MessageRecord[][] {
+  const [developer] = row.messages;
+  const intermediate = (row.turnLabels ?? []).map((label) => [
+    developer!,
+    {
+      content: buildLedgerMessage(label.tasks),
+      role: "system" as const,
+      thinking: null,
+    },
+    ...row.messages.slice(2, label.messageIndex + 1),
+    {
+      content: label.final,
+      role: "assistant" as const,
+      thinking: label.reasoning,
+    },
+  ]);
+  return [...intermediate, row.messages];
+}
+
+export function rowKey(row: DatasetRow): string {
+  return JSON.stringify([row.tasks, conversationFromRow(row), row.final]);
+}
+
+export function rowId(row: DatasetRow): string {
+  return createHash("sha256").update(rowKey(row)).digest("hex").slice(0, 12);
+}
+
+// Contrast siblings and augmented variants share a family with the rows they
+// were derived from, so splits keep them together and dedup leaves them be.
+export function rowFamily(row: DatasetRow): string {
+  return (
+    row.contrast?.group ??
+    row.augmentation?.group ??
+    row.augmentation?.source ??
+    rowId(row)
+  );
+}
+
+export function isDerivedRow(row: DatasetRow): boolean {
+  return Boolean(row.contrast || row.augmentation);
+}
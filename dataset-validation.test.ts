@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import type { DatasetRow } from "./dataset-rows";
+import { validateRow } from "./dataset-validation";
+
+const tasks = [
+  { id: "task-1", summary: "Book venue", last_update: "Asked" },
+  { id: "task-2", summary: "Order catering", last_update: "Shortlisted" },
+];
+
+function makeRow(final: string, overrides: Partial<DatasetRow> = {}) {
+  const row: DatasetRow = {
+    developer: "You are the orchestrator.",
+    tasks,
+    user: "the venue said yes",
+    reasoning: "Venue confirmed; record it on task-1.",
+    final,
+    messages: [
+      { content: "You are the orchestrator.", role: "system", thinking: null },
+      { content: "the venue said yes", role: "user", thinking: null },
+      { content: final, role: "assistant", thinking: null },
+    ],
+  };
+  return { ...row, ...overrides };
+}
+
+describe("validateRow", () => {
+  test("accepts a consistent row", () => {
+    expect(
+      validateRow(makeRow("update_task(task-1, Venue confirmed.)"))
+    ).toEqual([]);
+  });
+
+  test("reports every problem with a row", () => {
+    const row = makeRow("update_task(task-7, Venue confirmed.)", {
+      reasoning: " ",
+    });
+    row.messages[2]!.content = "noop";
+
+    expect(validateRow(row)).toEqual([
+      "Reasoning is empty",
+      expect.stringContaining("Task id 'task-7' is not in the ledger"),
+      "Last assistant message does not match the final field",
+    ]);
+  });
+
+  test("rejects ledgers that repeat a task id", () => {
+    const row = makeRow("noop", { tasks: [tasks[0]!, tasks[0]!] });
+    expect(validateRow(row)).toContain("Duplicate task id detected: task-1");
+  });
+});
@@ -0,0 +1,143 @@
+import { parseFinal } from "./action-format";
+import { getAction } from "./action-registry";
+import type { ActionKind, DatasetRow } from "./dataset-rows";
+import type { TaskCountRange } from "./generation-config";
+import {
+  validateAgainstLedger,
+  type IntentDecision,
+  type TaskRecord,
+} from "./intent-prompt";
+
+export function sanitizeTasks(tasks: any): TaskRecord[] {
+  if (!Array.isArray(tasks)) {
+    throw new Error("tasks must be an array");
+  }
+
+  return tasks.map((task, idx) => {
+    if (!task || typeof task !== "object") {
+      throw new Error(`Task at index ${idx} is invalid`);
+    }
+
+    const id = String(
+      task.id ?? task.task_id ?? task.identifier ?? "task-temp"
+    ).trim();
+    const summary = String(
+      task.summary ?? task.title ?? task.description ?? "Pending summary"
+    ).trim();
+    const lastUpdate = String(
+      task.last_update ?? task.lastUpdate ?? task.notes ?? "Awaiting details"
+    ).trim();
+
+    if (!id) throw new Error("Task id missing");
+    if (!summary) throw new Error("Task summary missing");
+    if (!lastUpdate) throw new Error("Task last_update missing");
+
+    return {
+      id,
+      summary,
+      last_update: lastUpdate,
+    } satisfies TaskRecord;
+  });
+}
+
+export function validateReasoning(reasoning: any): string {
+  const text = String(reasoning ?? "").trim();
+  if (!text) {
+    throw new Error("Reasoning is empty");
+  }
+
+  return text;
+}
+
+export function validateFinal(
+  action: ActionKind | null,
+  final: any,
+  tasks: TaskRecord[]
+): IntentDecision {
+  const text = String(final ?? "").trim();
+  if (!text) {
+    throw new Error("Final output is empty");
+  }
+
+  let decision: IntentDecision;
+  try {
+    decision = parseFinal(text);
+  } catch (error) {
+    throw new Error(
+      `Final command '${text}' failed to parse: ${(error as Error).message}`
+    );
+  }
+
+  if (action !== null && decision.action !== action) {
+    throw new Error(
+      `Final command '${text}' uses ${decision.action} instead of ${action}`
+    );
+  }
+
+  const [issue] = validateAgainstLedger(decision, tasks);
+  if (issue) {
+    throw new Error(
+      `Final command '${text}' failed validation: ${issue.message}`
+    );
+  }
+
+  return decision;
+}
+
+export function ensureTaskCount(
+  action: ActionKind,
+  tasks: TaskRecord[],
+  range?: TaskCountRange
+): void {
+  if (range) {
+    if (tasks.length < range.min || tasks.length > range.max) {
+      throw new Error(
+        `${action} scenarios must include ${range.min}-${range.max} ongoing tasks, received ${tasks.length}`
+      );
+    }
+    return;
+  }
+
+  const { min } = getAction(action).generation.taskCount;
+  if (tasks.length < min) {
+    throw new Error(
+      `${action} scenarios must include at least ${min} ongoing task${
+        min === 1 ? "" : "s"
+      }`
+    );
+  }
+}
+
+export function uniqueTaskIds(tasks: TaskRecord[]): void {
+  const seen = new Set<string>();
+  for (const task of tasks) {
+    if (seen.has(task.id)) {
+      throw new Error(`Duplicate task id detected: ${task.id}`);
+    }
+    seen.add(task.id);
+  }
+}
+
+export function validateRow(row: DatasetRow): string[] {
+  const errors: string[] = [];
+  const check = <T>(fn: () => T): T | null => {
+    try {
+      return fn();
+    } catch (error) {
+      errors.push((error as Error).message);
+      return null;
+    }
+  };
+
+  check(() => uniqueTaskIds(row.tasks));
+  check(() => validateReasoning(row.reasoning));
+  const decision = check(() => validateFinal(null, row.final, row.tasks));
+  if (decision) check(() => ensureTaskCount(decision.action, row.tasks));
+
+  const last = row.messages[row.messages.length - 1];
+  if (last?.role !== "assistant" || last.content.trim() !== row.final.trim()) {
+    errors.push("Last assistant message does not match the final field");
+  }
+
+  return errors;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import type { DatasetRow } from "./dataset-rows";
+import { evaluateRow, renderMarkdown, summarize } from "./eval-intents";
+import { createMockProvider } from "./llm-provider";
+import { getPrompt, stampOf } from "./prompt-registry";
+
+const tasks = [
+  { id: "task-12", summary: "Write spec", last_update: "Drafted" },
+];
+
+function makeRow(user: string, final: string): DatasetRow {
+  return {
+    developer: "You are the orchestrator.",
+    tasks,
+    user,
+    reasoning: "",
+    final,
+    messages: [
+      { content: "You are the orchestrator.", role: "system", thinking: null },
+      { content: user, role: "user", thinking: null },
+      { content: final, role: "assistant", thinking: null },
+    ],
+  };
+}
+
+const rows = [
+  makeRow("thanks", "reply(You are welcome.)"),
+  makeRow("spec is done", "update_task(task-12, Spec finished.)"),
+  makeRow("drop the spec", "cancel_task(task-12, Dropped.)"),
+];
+
+describe("evaluateRow and summarize", () => {
+  test("score actions, task ids and schema violations", async () => {
+    const provider = createMockProvider({
+      fixtures: [
+        { content: '{"action": "reply", "args": {"text": "Welcome."}}' },
+        {
+          content:
+            '{"action": "update_task", "args": {"task_id": "task-9", "explanation": "Done."}}',
+        },
+        { content: "cancel it" },
+      ],
+    });
+    const results = [];
+    for (const [index, row] of rows.entries()) {
+      results.push(await evaluateRow(provider, row, index));
+    }
+    const active = stampOf(getPrompt());
+    const report = summarize("mock", "test.jsonl", results, {
+      active,
+      trained: [active],
+    });
+
+    expect(report.accuracy).toBeCloseTo(2 / 3);
+    expect(report.confusion.cancel_task.invalid).toBe(1);
+    expect(report.taskIdExactMatch).toEqual({
+      correct: 0,
+      total: 2,
+      rate: 0,
+    });
+    expect(report.schemaViolationRate).toBeCloseTo(1 / 3);
+    expect(report.unknownTaskIdRate).toBeCloseTo(1 / 3);
+    expect(report.perAction.reply).toMatchObject({ precision: 1, recall: 1 });
+    expect(report.promptMismatch).toBe(false);
+    expect(renderMarkdown(report)).toContain("mock");
+  });
+});
@@ -0,0 +1,664 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { parseFinal } from "./action-format";
+import { ACTION_NAMES, getAction } from "./action-registry";
+import {
+  conversationFromRow,
+  readDatasetRows,
+  rowPrompt,
+  type ActionKind,
+  type ContrastGroup,
+  type DatasetRow,
+} from "./dataset-rows";
+import {
+  decisionTaskId,
+  parseDecision,
+  validateAgainstLedger,
+  type IntentDecision,
+} from "./intent-prompt";
+import { buildIntentMessages } from "./intent-router";
+import {
+  createProvider,
+  providerConfigFromEnv,
+  type LLMProvider,
+  type ProviderConfig,
+} from "./llm-provider";
+import {
+  checkPromptCompatibility,
+  formatStamp,
+  getPrompt,
+  parsePromptPolicy,
+  parsePromptStamp,
+  stampOf,
+  uniqueStamps,
+  type PromptStamp,
+} from "./prompt-registry";
+
+const ACTIONS: ActionKind[] = ACTION_NAMES;
+const INVALID = "invalid";
+const OTHER = "other";
+const UNLABELED = "unlabeled";
+const TASK_ACTIONS = ACTIONS.filter((action) =>
+  getAction(action).params.some((param) => param.kind === "task_id")
+);
+
+type PredictedLabel = ActionKind | typeof INVALID;
+
+type Label = {
+  action: ActionKind;
+  taskId: string | null;
+};
+
+type RowResult = {
+  index: number;
+  expected: Label;
+  predicted: PredictedLabel;
+  predictedTaskId: string | null;
+  schemaViolation: boolean;
+  unknownTaskId: boolean;
+  latencyMs: number;
+  error: string | null;
+  raw: string | null;
+  language: string;
+  contrast: ContrastGroup | null;
+};
+
+type ActionMetrics = {
+  support: number;
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+type LanguageMetrics = {
+  rows: number;
+  accuracy: number;
+  taskIdExactMatch: number;
+  schemaViolationRate: number;
+};
+
+// Confusion within a contrast set is restricted to the set's own actions;
+// anything else the model predicts is counted under "other".
+type ContrastSetMetrics = {
+  actions: ActionKind[];
+  groups: number;
+  rows: number;
+  accuracy: number;
+  groupAccuracy: number;
+  confusion: Record<string, Record<string, number>>;
+};
+
+export type EvalReport = {
+  model: string;
+  dataset: string;
+  createdAt: string;
+  prompt: PromptStamp;
+  trainedPrompts: PromptStamp[];
+  promptMismatch: boolean;
+  rows: number;
+  accuracy: number;
+  confusion: Record<ActionKind, Record<PredictedLabel, number>>;
+  perAction: Record<ActionKind, ActionMetrics>;
+  macroF1: number;
+  taskIdExactMatch: { correct: number; total: number; rate: number };
+  schemaViolationRate: number;
+  unknownTaskIdRate: number;
+  latencyMs: { p50: number; p95: number; p99: number; mean: number };
+  perLanguage: Record<string, LanguageMetrics>;
+  contrasts: Record<string, ContrastSetMetrics>;
+  results: RowResult[];
+};
+
+function parseLabel(final: string): Label {
+  const decision = parseFinal(final);
+  return { action: decision.action, taskId: decisionTaskId(decision) };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))]!;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+export async function evaluateRow(
+  provider: LLMProvider,
+  row: DatasetRow,
+  index: number
+): Promise<RowResult> {
+  const expected = parseLabel(row.final);
+  const startedAt = performance.now();
+  let raw: string | null = null;
+  let error: string | null = null;
+  let decision: IntentDecision | null = null;
+
+  try {
+    const response = await provider.complete({
+      messages: buildIntentMessages(conversationFromRow(row), row.tasks),
+      jsonMode: true,
+    });
+    raw = response.content;
+  } catch (err) {
+    error = (err as Error).message;
+  }
+  const latencyMs = performance.now() - startedAt;
+
+  if (raw !== null) {
+    try {
+      decision = parseDecision(raw);
+    } catch (err) {
+      error = `Schema violation: ${(err as Error).message}`;
+    }
+  }
+
+  return {
+    index,
+    expected,
+    predicted: decision?.action ?? INVALID,
+    predictedTaskId: decision ? decisionTaskId(decision) : null,
+    schemaViolation: raw !== null && decision === null,
+    unknownTaskId: decision
+      ? validateAgainstLedger(decision, row.tasks).some(
+          (issue) => issue.code === "unknown_task_id"
+        )
+      : false,
+    latencyMs,
+    error,
+    raw,
+    language: row.language ?? UNLABELED,
+    contrast: row.contrast ?? null,
+  };
+}
+
+function summarizeLanguages(
+  results: RowResult[]
+): Record<string, LanguageMetrics> {
+  const languages = [...new Set(results.map((result) => result.language))];
+  return Object.fromEntries(
+    languages.sort().map((language) => {
+      const rows = results.filter((result) => result.language === language);
+      const taskRows = rows.filter((result) =>
+        TASK_ACTIONS.includes(result.expected.action)
+      );
+      return [
+        language,
+        {
+          rows: rows.length,
+          accuracy: ratio(
+            rows.filter((result) => result.predicted === result.expected.action)
+              .length,
+            rows.length
+          ),
+          taskIdExactMatch: ratio(
+            taskRows.filter(
+              (result) =>
+                result.predicted === result.expected.action &&
+                result.predictedTaskId === result.expected.taskId
+            ).length,
+            taskRows.length
+          ),
+          schemaViolationRate: ratio(
+            rows.filter((result) => result.schemaViolation).length,
+            rows.length
+          ),
+        },
+      ];
+    })
+  );
+}
+
+function summarizeContrasts(
+  results: RowResult[]
+): Record<string, ContrastSetMetrics> {
+  const sets = new Map<string, Map<string, RowResult[]>>();
+  for (const result of results) {
+    if (!result.contrast) continue;
+    const groups = sets.get(result.contrast.set) ?? new Map();
+    const members = groups.get(result.contrast.group) ?? [];
+    members.push(result);
+    groups.set(result.contrast.group, members);
+    sets.set(result.contrast.set, groups);
+  }
+
+  return Object.fromEntries(
+    [...sets.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([set, groups]) => {
+        const members = [...groups.values()].flat();
+        const actions = ACTIONS.filter((action) =>
+          members.some((result) => result.expected.action === action)
+        );
+        const labels = [...actions, OTHER];
+        const confusion = Object.fromEntries(
+          actions.map((action) => [
+            action,
+            Object.fromEntries(labels.map((label) => [label, 0])),
+          ])
+        );
+        for (const result of members) {
+          const predicted = actions.includes(result.predicted as ActionKind)
+            ? result.predicted
+            : OTHER;
+          confusion[result.expected.action]![predicted]! += 1;
+        }
+        const correct = (result: RowResult) =>
+          result.predicted === result.expected.action;
+        const solved = [...groups.values()].filter((group) =>
+          group.every(correct)
+        ).length;
+        return [
+          set,
+          {
+            actions,
+            groups: groups.size,
+            rows: members.length,
+            accuracy: ratio(members.filter(correct).length, members.length),
+            groupAccuracy: ratio(solved, groups.size),
+            confusion,
+          },
+        ];
+      })
+  );
+}
+
+export function summarize(
+  model: string,
+  dataset: string,
+  results: RowResult[],
+  prompts: { active: PromptStamp; trained: PromptStamp[] }
+): EvalReport {
+  const labels: PredictedLabel[] = [...ACTIONS, INVALID];
+  const confusion = Object.fromEntries(
+    ACTIONS.map((action) => [
+      action,
+      Object.fromEntries(labels.map((label) => [label, 0])),
+    ])
+  ) as EvalReport["confusion"];
+
+  for (const result of results) {
+    confusion[result.expected.action][result.predicted] += 1;
+  }
+
+  const perAction = Object.fromEntries(
+    ACTIONS.map((action) => {
+      const truePositive = confusion[action][action];
+      const support = labels.reduce(
+        (sum, label) => sum + confusion[action][label],
+        0
+      );
+      const predicted = ACTIONS.reduce(
+        (sum, expected) => sum + confusion[expected][action],
+        0
+      );
+      const precision = ratio(truePositive, predicted);
+      const recall = ratio(truePositive, support);
+      const f1 = ratio(2 * precision * recall, precision + recall);
+      return [action, { support, precision, recall, f1 }];
+    })
+  ) as EvalReport["perAction"];
+
+  const supported = ACTIONS.filter((action) => perAction[action].support > 0);
+
+  const taskRows = results.filter((result) =>
+    TASK_ACTIONS.includes(result.expected.action)
+  );
+  const taskCorrect = taskRows.filter(
+    (result) =>
+      result.predicted === result.expected.action &&
+      result.predictedTaskId === result.expected.taskId
+  ).length;
+
+  const latencies = results
+    .filter((result) => result.raw !== null)
+    .map((result) => result.latencyMs)
+    .sort((a, b) => a - b);
+
+  const correct = results.filter(
+    (result) => result.predicted === result.expected.action
+  ).length;
+
+  return {
+    model,
+    dataset,
+    createdAt: new Date().toISOString(),
+    prompt: prompts.active,
+    trainedPrompts: prompts.trained,
+    promptMismatch: prompts.trained.some(
+      (stamp) => stamp.hash !== prompts.active.hash
+    ),
+    rows: results.length,
+    accuracy: ratio(correct, results.length),
+    confusion,
+    perAction,
+    macroF1: ratio(
+      supported.reduce((sum, action) => sum + perAction[action].f1, 0),
+      supported.length
+    ),
+    taskIdExactMatch: {
+      correct: taskCorrect,
+      total: taskRows.length,
+      rate: ratio(taskCorrect, taskRows.length),
+    },
+    schemaViolationRate: ratio(
+      results.filter((result) => result.schemaViolation).length,
+      results.length
+    ),
+    unknownTaskIdRate: ratio(
+      results.filter((result) => result.unknownTaskId).length,
+      results.length
+    ),
+    latencyMs: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+      mean: ratio(
+        latencies.reduce((sum, value) => sum + value, 0),
+        latencies.length
+      ),
+    },
+    perLanguage: summarizeLanguages(results),
+    contrasts: summarizeContrasts(results),
+    results,
+  };
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+const ms = (value: number) => `${value.toFixed(0)} ms`;
+
+export function renderMarkdown(report: EvalReport): string {
+  const labels: PredictedLabel[] = [...ACTIONS, INVALID];
+  const lines = [
+    `# Intent eval — ${report.model}`,
+    "",
+    `- Dataset: \`${report.dataset}\` (${report.rows} rows)`,
+    `- Prompt: ${formatStamp(report.prompt)}${
+      report.promptMismatch
+        ? ` (**mismatch**: trained on ${report.trainedPrompts
+            .map(formatStamp)
+            .join(", ")})`
+        : ""
+    }`,
+    `- Accuracy: ${pct(report.accuracy)}`,
+    `- Macro F1: ${report.macroF1.toFixed(3)}`,
+    `- Task id exact match: ${pct(report.taskIdExactMatch.rate)} (${
+      report.taskIdExactMatch.correct
+    }/${report.taskIdExactMatch.total})`,
+    `- Schema violations: ${pct(report.schemaViolationRate)}`,
+    `- Unknown task ids: ${pct(report.unknownTaskIdRate)}`,
+    `- Latency: p50 ${ms(report.latencyMs.p50)}, p95 ${ms(
+      report.latencyMs.p95
+    )}, p99 ${ms(report.latencyMs.p99)}`,
+    "",
+    "## Per-action metrics",
+    "",
+    "| action | support | precision | recall | f1 |",
+    "| --- | ---: | ---: | ---: | ---: |",
+    ...ACTIONS.map((action) => {
+      const metrics = report.perAction[action];
+      return `| ${action} | ${metrics.support} | ${metrics.precision.toFixed(
+        3
+      )} | ${metrics.recall.toFixed(3)} | ${metrics.f1.toFixed(3)} |`;
+    }),
+    "",
+    "## Per-language metrics",
+    "",
+    "| language | rows | accuracy | task id exact match | schema violations |",
+    "| --- | ---: | ---: | ---: | ---: |",
+    ...Object.entries(report.perLanguage).map(
+      ([language, metrics]) =>
+        `| ${language} | ${metrics.rows} | ${pct(metrics.accuracy)} | ${pct(
+          metrics.taskIdExactMatch
+        )} | ${pct(metrics.schemaViolationRate)} |`
+    ),
+    "",
+    "## Confusion matrix (rows = expected, columns = predicted)",
+    "",
+    `| expected | ${labels.join(" | ")} |`,
+    `| --- | ${labels.map(() => "---:").join(" | ")} |`,
+    ...ACTIONS.map(
+      (action) =>
+        `| ${action} | ${labels
+          .map((label) => report.confusion[action][label])
+          .join(" | ")} |`
+    ),
+    "",
+    ...renderContrasts(report.contrasts),
+  ];
+  return lines.join("\n");
+}
+
+function renderContrasts(contrasts: EvalReport["contrasts"]): string[] {
+  const entries = Object.entries(contrasts);
+  if (entries.length === 0) return [];
+  return [
+    "## Contrast sets",
+    "",
+    "A group counts as solved only when every variant in it is predicted correctly.",
+    "",
+    "| set | groups | rows | accuracy | groups solved |",
+    "| --- | ---: | ---: | ---: | ---: |",
+    ...entries.map(
+      ([set, metrics]) =>
+        `| ${set} | ${metrics.groups} | ${metrics.rows} | ${pct(
+          metrics.accuracy
+        )} | ${pct(metrics.groupAccuracy)} |`
+    ),
+    "",
+    ...entries.flatMap(([set, metrics]) => {
+      const labels = [...metrics.actions, OTHER];
+      return [
+        `### ${set} (rows = expected, columns = predicted)`,
+        "",
+        `| expected | ${labels.join(" | ")} |`,
+        `| --- | ${labels.map(() => "---:").join(" | ")} |`,
+        ...metrics.actions.map(
+          (action) =>
+            `| ${action} | ${labels
+              .map((label) => metrics.confusion[action]![label])
+              .join(" | ")} |`
+        ),
+        "",
+      ];
+    }),
+  ];
+}
+
+export function renderComparison(reports: EvalReport[]): string {
+  const header = `| metric | ${reports
+    .map((report) => report.model)
+    .join(" | ")} |`;
+  const divider = `| --- | ${reports.map(() => "---:").join(" | ")} |`;
+  const row = (name: string, value: (report: EvalReport) => string) =>
+    `| ${name} | ${reports.map(value).join(" | ")} |`;
+  const languages = [
+    ...new Set(
+      reports.flatMap((report) => Object.keys(report.perLanguage ?? {}))
+    ),
+  ].sort();
+  const contrastSets = [
+    ...new Set(
+      reports.flatMap((report) => Object.keys(report.contrasts ?? {}))
+    ),
+  ].sort();
+
+  return [
+    "# Intent eval comparison",
+    "",
+    header,
+    divider,
+    row("rows", (report) => String(report.rows)),
+    row("prompt", (report) =>
+      report.prompt ? formatStamp(report.prompt) : "unknown"
+    ),
+    row("accuracy", (report) => pct(report.accuracy)),
+    row("macro F1", (report) => report.macroF1.toFixed(3)),
+    row("task id exact match", (report) => pct(report.taskIdExactMatch.rate)),
+    row("schema violations", (report) => pct(report.schemaViolationRate)),
+    row("unknown task ids", (report) => pct(report.unknownTaskIdRate)),
+    row("latency p50", (report) => ms(report.latencyMs.p50)),
+    row("latency p95", (report) => ms(report.latencyMs.p95)),
+    row("latency p99", (report) => ms(report.latencyMs.p99)),
+    ...ACTIONS.map((action) =>
+      row(`${action} f1`, (report) => report.perAction[action].f1.toFixed(3))
+    ),
+    ...languages.map((language) =>
+      row(`${language} accuracy`, (report) => {
+        const metrics = report.perLanguage?.[language];
+        return metrics ? pct(metrics.accuracy) : "n/a";
+      })
+    ),
+    ...contrastSets.map((set) =>
+      row(`${set} groups solved`, (report) => {
+        const metrics = report.contrasts?.[set];
+        return metrics ? pct(metrics.groupAccuracy) : "n/a";
+      })
+    ),
+    "",
+  ].join("\n");
+}
+
+async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let pointer = 0;
+  const workers = Array.from({ length: concurrency }, async () => {
+    while (pointer < items.length) {
+      const index = pointer++;
+      results[index] = await fn(items[index]!, index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+async function writeReport(outPrefix: string, report: EvalReport) {
+  await mkdir(dirname(outPrefix), { recursive: true });
+  await writeFile(`${outPrefix}.json`, JSON.stringify(report, null, 2));
+  await writeFile(`${outPrefix}.md`, renderMarkdown(report));
+}
+
+// `--base-url=` points the run at any OpenAI-compatible endpoint, and
+// `--provider=mock --fixtures=` runs it offline. The report covers accuracy,
+// the confusion matrix, per-action precision/recall/F1 and macro-F1, task-id
+// exact match on the ledger actions, schema-violation and unknown-task-id
+// rates, and p50/p95/p99 latency.
+async function runEval() {
+  const dataset = readArg("dataset") ?? "intent-dataset-test.jsonl";
+  const envConfig = providerConfigFromEnv("EVAL", {
+    provider: "openai",
+    model: "gpt-5",
+  });
+  const baseURL = readArg("base-url") ?? envConfig.baseURL;
+  const config: ProviderConfig = {
+    ...envConfig,
+    provider: (readArg("provider") ??
+      (baseURL
+        ? "openai-compatible"
+        : envConfig.provider)) as ProviderConfig["provider"],
+    model: readArg("model") ?? envConfig.model,
+    baseURL,
+    fixtures: readArg("fixtures") ?? envConfig.fixtures,
+  };
+  const concurrency = Number(readArg("concurrency") ?? "8");
+  const limit = readArg("limit") ? Number(readArg("limit")) : undefined;
+  const outPrefix =
+    readArg("out") ??
+    `eval-results/${config.model.replace(/[^a-z0-9.-]+/gi, "_")}`;
+
+  // The evaluated rows carry the stamp they were generated with, not the one
+  // the model was trained on, so the trained prompt has to be named.
+  const trainedPromptArg = readArg("trained-prompt");
+  const trainedOn = readArg("trained-on");
+  if (!trainedPromptArg && !trainedOn) {
+    throw new Error(
+      "eval requires --trained-prompt=<version>[@<hash>] or --trained-on=<train.jsonl> to check the prompt the model was trained with"
+    );
+  }
+
+  const rows = (await readDatasetRows(dataset)).slice(0, limit);
+  const provider = await createProvider(config);
+
+  const active = stampOf(getPrompt());
+  const trained = trainedPromptArg
+    ? [parsePromptStamp(trainedPromptArg)]
+    : uniqueStamps((await readDatasetRows(trainedOn!)).map(rowPrompt));
+  checkPromptCompatibility({
+    context: `Evaluation of ${provider.model}`,
+    trained,
+    active,
+    policy: parsePromptPolicy(readArg("prompt-policy")),
+  });
+
+  console.log(
+    `Evaluating ${provider.name}:${provider.model} on ${rows.length} rows from ${dataset}`
+  );
+  let completed = 0;
+  const results = await runWithConcurrency(
+    rows,
+    concurrency,
+    async (row, index) => {
+      const result = await evaluateRow(provider, row, index);
+      completed += 1;
+      if (process.stdout.isTTY) {
+        process.stdout.write(`\rEvaluated ${completed}/${rows.length}`);
+      }
+      return result;
+    }
+  );
+  if (process.stdout.isTTY) process.stdout.write("\n");
+
+  const report = summarize(provider.model, dataset, results, {
+    active,
+    trained,
+  });
+  await writeReport(outPrefix, report);
+  console.log(renderMarkdown(report));
+  console.log(`Wrote ${outPrefix}.json and ${outPrefix}.md`);
+}
+
+async function runCompare(paths: string[]) {
+  if (paths.length < 2) {
+    throw new Error("compare requires at least two report JSON files");
+  }
+  const reports = await Promise.all(
+    paths.map(
+      async (path) => JSON.parse(await readFile(path, "utf8")) as EvalReport
+    )
+  );
+  const markdown = renderComparison(reports);
+  const out = readArg("out");
+  if (out) {
+    await writeFile(out, markdown);
+    console.log(`Wrote comparison to ${out}`);
+  } else {
+    console.log(markdown);
+  }
+}
+
+if (import.meta.main) {
+  const [command = "run", ...rest] = process.argv
+    .slice(2)
+    .filter((arg) => !arg.startsWith("--"));
+
+  if (command === "compare") {
+    await runCompare(rest);
+  } else if (command === "run") {
+    await runEval();
+  } else {
+    console.error(`Unknown command '${command}'. Use 'run' or 'compare'.`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  DEFAULT_GENERATION_CONFIG,
+  generationConfigSchema,
+  loadGenerationConfig,
+  resolveGenerationConfig,
+} from "./generation-config";
+
+async function withConfig(
+  json: unknown,
+  run: (configPath: string, dir: string) => Promise<void>
+) {
+  const dir = await mkdtemp(path.join(tmpdir(), "generation-config-"));
+  try {
+    const configPath = path.join(dir, "generation.json");
+    await writeFile(configPath, JSON.stringify(json));
+    await run(configPath, dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe("loadGenerationConfig", () => {
+  test("falls back to the defaults without a config file", async () => {
+    const config = await loadGenerationConfig(undefined, "/data");
+
+    expect(config.outputDir).toBe("/data");
+    expect(config.actions).toEqual(DEFAULT_GENERATION_CONFIG.actions);
+  });
+
+  test("merges action overrides and resolves outputDir next to the file", () =>
+    withConfig(
+      { outputDir: "out", actions: { noop: { themes: ["Quiet office"] } } },
+      async (configPath, dir) => {
+        const config = await loadGenerationConfig(configPath, "/elsewhere");
+
+        expect(config.outputDir).toBe(path.join(dir, "out"));
+        expect(config.actions.noop.themes).toEqual(["Quiet office"]);
+        expect(config.actions.noop.prompt).toBe(
+          DEFAULT_GENERATION_CONFIG.actions.noop.prompt
+        );
+      }
+    ));
+
+  test("names the offending path of an invalid file", () =>
+    withConfig({ concurency: 4 }, async (configPath) => {
+      await expect(loadGenerationConfig(configPath, ".")).rejects.toThrow(
+        /Invalid generation config .*concurency/s
+      );
+    }));
+});
+
+describe("languages", () => {
+  test("only English is enabled by default", () => {
+    expect(
+      DEFAULT_GENERATION_CONFIG.languages.map((language) => language.code)
+    ).toEqual(["en"]);
+  });
+
+  test("resolves preset codes next to custom languages", () => {
+    const input = generationConfigSchema.parse({
+      languages: [
+        "en",
+        "pl",
+        { code: "pt-BR", name: "Portuguese", description: "Brazilian." },
+      ],
+    });
+    const config = resolveGenerationConfig(input, "/tmp");
+
+    expect(config.languages.map((language) => language.name)).toEqual([
+      "English",
+      "Polish",
+      "Portuguese",
+    ]);
+  });
+
+  test("rejects unknown preset codes and duplicates", () => {
+    expect(
+      generationConfigSchema.safeParse({ languages: ["xx"] }).success
+    ).toBe(false);
+    expect(
+      generationConfigSchema.safeParse({ languages: ["en", "en"] }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,502 @@
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { z } from "zod";
+import {
+  ACTIONS,
+  ACTION_NAMES,
+  type ActionGeneration,
+  type ActionKind,
+} from "./action-registry";
+import type { CoverageWeights } from "./coverage-planner";
+import type { PriceTable } from "./generation-cost";
+import type { ProviderConfig, ReasoningEffort } from "./llm-provider";
+import { QUALITY_CHECK_NAMES } from "./quality-gates";
+
+export type MessageStyle = {
+  name: string;
+  description: string;
+  shortHint: string;
+};
+
+export type Language = {
+  code: string;
+  name: string;
+  description: string;
+};
+
+export type ActionConfig = ActionGeneration;
+
+export type TaskCountRange = ActionConfig["taskCount"];
+
+export type PartitionConfig = {
+  name: string;
+  perAction: number;
+  output: string;
+};
+
+export type ContrastVariant = {
+  action: ActionKind;
+  cue: string;
+};
+
+// A set lists the actions a minimal edit should flip between, such as `reply`
+// vs `update_task` for status questions, or `update_task` / `cancel_task` /
+// `start_task` for changes of plan. A variant's cue tells the teacher what its
+// user message has to convey.
+export type ContrastSet = {
+  name: string;
+  description: string;
+  themes: string[];
+  variants: ContrastVariant[];
+};
+
+export type ContrastConfig = {
+  // `--contrast-groups` on the command line.
+  groupsPerSet: number;
+  sets: ContrastSet[];
+};
+
+export type CoverageConfig = {
+  weights: CoverageWeights;
+};
+
+export type GenerationConfig = {
+  provider: ProviderConfig["provider"];
+  model: string;
+  reasoningEffort: ReasoningEffort | null;
+  concurrency: number;
+  maxAttempts: number;
+  budgetUsd: number | null;
+  pricing: PriceTable;
+  outputDir: string;
+  styles: MessageStyle[];
+  languages: Language[];
+  localizeTasks: boolean;
+  actions: Record<ActionKind, ActionConfig>;
+  partitions: PartitionConfig[];
+  constraints: string[];
+  qualityChecks: string[];
+  contrast: ContrastConfig;
+  coverage: CoverageConfig;
+};
+
+const DEFAULT_ROWS = 1000;
+
+// Languages a config can enable by code alone. Only English is on by default;
+// the others are opt-in through `languages` or `--languages`, and full
+// `{ code, name, description }` entries add new ones. Reasoning and the final
+// action stay in English, and so do task summaries unless `localizeTasks` is
+// set. `dataset-cli.ts stats` and `eval-intents.ts` break results down by
+// language.
+export const LANGUAGE_PRESETS: Language[] = [
+  {
+    code: "en",
+    name: "English",
+    description: "Natural workplace English.",
+  },
+  {
+    code: "de",
+    name: "German",
+    description:
+      "Natural workplace German (du or Sie as fits the tone); English product and tool names stay as they are.",
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    description:
+      "Natural workplace Spanish; English product and tool names stay as they are.",
+  },
+  {
+    code: "pl",
+    name: "Polish",
+    description:
+      "Natural workplace Polish with correct diacritics unless the style calls for sloppy typing; English product and tool names stay as they are.",
+  },
+];
+
+export function findLanguagePreset(code: string): Language | undefined {
+  return LANGUAGE_PRESETS.find((language) => language.code === code);
+}
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  provider: "openai",
+  model: "gpt-5",
+  reasoningEffort: null,
+  concurrency: 100,
+  maxAttempts: 4,
+  budgetUsd: null,
+  // USD per million tokens; override or extend in the generation config.
+  pricing: {
+    "gpt-5": { inputPerMillion: 1.25, outputPerMillion: 10 },
+    "gpt-5-mini": { inputPerMillion: 0.25, outputPerMillion: 2 },
+    "gpt-5-nano": { inputPerMillion: 0.05, outputPerMillion: 0.4 },
+    "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+    "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  },
+  outputDir: ".",
+  styles: [
+    {
+      name: "formal",
+      description:
+        "Well-structured business prose with complete sentences and proper punctuation.",
+      shortHint: "formal complete sentences",
+    },
+    {
+      name: "minimal",
+      description:
+        "Extremely short or telegraphic phrasing (3-6 words), all lowercase, minimal or no punctuation.",
+      shortHint: "very short lowercase snippet",
+    },
+    {
+      name: "fragment",
+      description:
+        "Intentionally unfinished thought, trailing clause, or abruptly cut-off sentence, potentially ending mid-word.",
+      shortHint: "incomplete or truncated clause",
+    },
+    {
+      name: "casual",
+      description:
+        "Relaxed conversational tone with common abbreviations, mixed casing, and light filler words.",
+      shortHint: "casual conversational",
+    },
+    {
+      name: "urgent",
+      description:
+        "Short, urgent-sounding request with imperative language, may omit subjects or punctuation.",
+      shortHint: "urgent clipped command",
+    },
+  ],
+  languages: LANGUAGE_PRESETS.filter((language) => language.code === "en"),
+  localizeTasks: false,
+  actions: Object.fromEntries(
+    ACTIONS.map((action) => [action.name, action.generation])
+  ) as Record<ActionKind, ActionConfig>,
+  partitions: [
+    {
+      name: "train",
+      perAction: Math.floor(DEFAULT_ROWS / ACTION_NAMES.length),
+      output: "intent-dataset-train.jsonl",
+    },
+    {
+      name: "test",
+      perAction: Math.floor(DEFAULT_ROWS / (ACTION_NAMES.length * 10)),
+      output: "intent-dataset-test.jsonl",
+    },
+  ],
+  constraints: [
+    "The user message should reflect the theme and reference previous context when helpful.",
+    "Tasks should represent ongoing work only (omit any status field).",
+    "Reasoning should be a concise multi-step markdown bullet or numbered list referencing message context, task audit, option comparison, and decision rationale.",
+    "Ensure the reasoning mentions why alternative actions were not chosen.",
+    "The final field must comply exactly with the required format for the specified action.",
+    "For noop scenarios, emphasize multiple in-flight tool updates and why waiting is safest.",
+    "Keep ids in the format task-<number>.",
+    "Avoid mentioning the dataset or that this is synthetic.",
+  ],
+  qualityChecks: QUALITY_CHECK_NAMES,
+  contrast: {
+    groupsPerSet: 0,
+    sets: [
+      {
+        name: "status-or-progress",
+        description:
+          "The user talks about an existing task while it is in progress.",
+        themes: [
+          "Vendor follow-up",
+          "Shipment tracking",
+          "Contract review turnaround",
+          "Bug fix rollout",
+          "Candidate interview loop",
+        ],
+        variants: [
+          {
+            action: "reply",
+            cue: "the user only asks where things stand, the ledger already answers it, and there is nothing new to record",
+          },
+          {
+            action: "update_task",
+            cue: "the user passes on new information about that task (a confirmation, a date, a blocker) that must be recorded",
+          },
+        ],
+      },
+      {
+        name: "ping-while-running",
+        description:
+          "Tool calls are still returning results when the user sends a short message.",
+        themes: [
+          "Data export and signature both pending",
+          "Parallel vendor lookups mid-flight",
+          "Compliance scans still running",
+          "Deployment pipeline and smoke tests in progress",
+          "Invoice reconciliation jobs queued",
+        ],
+        variants: [
+          {
+            action: "noop",
+            cue: "the user's message is a bare nudge or acknowledgement that needs no answer until the tools finish",
+          },
+          {
+            action: "reply",
+            cue: "the user asks a direct question that can be answered right now without waiting for the tools",
+          },
+        ],
+      },
+      {
+        name: "change-of-plan",
+        description: "The user changes plans around an existing task.",
+        themes: [
+          "Event logistics shift",
+          "Research scope change",
+          "Procurement decision reversed",
+          "Campaign timeline moved",
+          "Travel itinerary rework",
+        ],
+        variants: [
+          {
+            action: "update_task",
+            cue: "the user adjusts the details of the same goal, so the task continues with new scope",
+          },
+          {
+            action: "cancel_task",
+            cue: "the user drops the goal entirely, so the task should stop",
+          },
+          {
+            action: "start_task",
+            cue: "the user keeps the task as-is and asks for a separate new piece of work",
+          },
+        ],
+      },
+    ],
+  },
+  coverage: {
+    weights: {},
+  },
+};
+
+const nonEmpty = z.string().trim().min(1);
+
+const taskCountSchema = z
+  .strictObject({
+    min: z.int().min(0),
+    max: z.int().min(1),
+  })
+  .refine((range) => range.min <= range.max, {
+    message: "min must not exceed max",
+  });
+
+const contrastSetSchema = z
+  .strictObject({
+    name: nonEmpty,
+    description: nonEmpty,
+    themes: z.array(nonEmpty).min(1),
+    variants: z
+      .array(z.strictObject({ action: z.enum(ACTION_NAMES), cue: nonEmpty }))
+      .min(2)
+      .max(3),
+  })
+  .refine(
+    (set) =>
+      new Set(set.variants.map((variant) => variant.action)).size ===
+      set.variants.length,
+    { message: "contrast variants must use distinct actions" }
+  );
+
+const actionSchema = z.strictObject({
+  prompt: nonEmpty.optional(),
+  themes: z.array(nonEmpty).min(1).optional(),
+  taskCount: taskCountSchema.optional(),
+});
+
+const weightsSchema = z.record(nonEmpty, z.number().min(0));
+
+export const generationConfigSchema = z.strictObject({
+  provider: z
+    .enum(["openai", "together", "openai-compatible", "mock"])
+    .optional(),
+  model: nonEmpty.optional(),
+  reasoningEffort: z.enum(["minimal", "low", "medium", "high"]).optional(),
+  concurrency: z.int().positive().optional(),
+  maxAttempts: z.int().positive().optional(),
+  budgetUsd: z.number().positive().optional(),
+  pricing: z
+    .record(
+      nonEmpty,
+      z.strictObject({
+        inputPerMillion: z.number().min(0),
+        outputPerMillion: z.number().min(0),
+      })
+    )
+    .optional(),
+  outputDir: nonEmpty.optional(),
+  styles: z
+    .array(
+      z.strictObject({
+        name: nonEmpty,
+        description: nonEmpty,
+        shortHint: nonEmpty,
+      })
+    )
+    .min(1)
+    .refine(
+      (styles) =>
+        new Set(styles.map((style) => style.name)).size === styles.length,
+      { message: "style names must be unique" }
+    )
+    .optional(),
+  languages: z
+    .array(
+      z.union([
+        nonEmpty.refine((code) => findLanguagePreset(code) !== undefined, {
+          message: `unknown language preset (known: ${LANGUAGE_PRESETS.map(
+            (language) => language.code
+          ).join(", ")})`,
+        }),
+        z.strictObject({
+          code: nonEmpty.regex(
+            /^[a-z]{2,3}(-[A-Z]{2})?$/,
+            "code must look like 'de' or 'pt-BR'"
+          ),
+          name: nonEmpty,
+          description: nonEmpty,
+        }),
+      ])
+    )
+    .min(1)
+    .refine(
+      (languages) =>
+        new Set(
+          languages.map((language) =>
+            typeof language === "string" ? language : language.code
+          )
+        ).size === languages.length,
+      { message: "language codes must be unique" }
+    )
+    .optional(),
+  localizeTasks: z.boolean().optional(),
+  actions: z.partialRecord(z.enum(ACTION_NAMES), actionSchema).optional(),
+  partitions: z
+    .array(
+      z.strictObject({
+        name: nonEmpty,
+        perAction: z.int().positive(),
+        output: nonEmpty.regex(/\.jsonl$/i, "output must end with .jsonl"),
+      })
+    )
+    .min(1)
+    .refine(
+      (partitions) =>
+        new Set(partitions.map((partition) => partition.output)).size ===
+        partitions.length,
+      { message: "partition outputs must be unique" }
+    )
+    .optional(),
+  constraints: z.array(nonEmpty).optional(),
+  qualityChecks: z.array(z.enum(QUALITY_CHECK_NAMES)).optional(),
+  contrast: z
+    .strictObject({
+      groupsPerSet: z.int().min(0).optional(),
+      sets: z
+        .array(contrastSetSchema)
+        .min(1)
+        .refine(
+          (sets) => new Set(sets.map((set) => set.name)).size === sets.length,
+          { message: "contrast set names must be unique" }
+        )
+        .optional(),
+    })
+    .optional(),
+  coverage: z
+    .strictObject({
+      weights: z
+        .strictObject({
+          themes: weightsSchema.optional(),
+          styles: weightsSchema.optional(),
+          languages: weightsSchema.optional(),
+          taskCounts: z
+            .record(z.string().regex(/^\d+$/), z.number().min(0))
+            .optional(),
+          targetPositions: z
+            .partialRecord(
+              z.enum(["only", "first", "middle", "last"]),
+              z.number().min(0)
+            )
+            .optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+export type GenerationConfigInput = z.infer<typeof generationConfigSchema>;
+
+export function resolveGenerationConfig(
+  input: GenerationConfigInput,
+  baseDir: string
+): GenerationConfig {
+  const defaults = DEFAULT_GENERATION_CONFIG;
+  const actions = Object.fromEntries(
+    ACTION_NAMES.map((action) => [
+      action,
+      { ...defaults.actions[action], ...input.actions?.[action] },
+    ])
+  ) as Record<ActionKind, ActionConfig>;
+
+  return {
+    provider: input.provider ?? defaults.provider,
+    model: input.model ?? defaults.model,
+    reasoningEffort: input.reasoningEffort ?? defaults.reasoningEffort,
+    concurrency: input.concurrency ?? defaults.concurrency,
+    maxAttempts: input.maxAttempts ?? defaults.maxAttempts,
+    budgetUsd: input.budgetUsd ?? defaults.budgetUsd,
+    pricing: { ...defaults.pricing, ...input.pricing },
+    outputDir: resolve(baseDir, input.outputDir ?? defaults.outputDir),
+    styles: input.styles ?? defaults.styles,
+    languages:
+      input.languages?.map((language) =>
+        typeof language === "string" ? findLanguagePreset(language)! : language
+      ) ?? defaults.languages,
+    localizeTasks: input.localizeTasks ?? defaults.localizeTasks,
+    actions,
+    partitions: input.partitions ?? defaults.partitions,
+    constraints: input.constraints ?? defaults.constraints,
+    qualityChecks: input.qualityChecks ?? defaults.qualityChecks,
+    contrast: {
+      groupsPerSet:
+        input.contrast?.groupsPerSet ?? defaults.contrast.groupsPerSet,
+      sets: input.contrast?.sets ?? defaults.contrast.sets,
+    },
+    coverage: {
+      weights: input.coverage?.weights ?? defaults.coverage.weights,
+    },
+  };
+}
+
+// Every field is optional. A typo fails with the offending path before any
+// model call is made, and `outputDir` is resolved relative to the config file.
+export async function loadGenerationConfig(
+  configPath: string | undefined,
+  defaultDir: string
+): Promise<GenerationConfig> {
+  if (!configPath) return resolveGenerationConfig({}, defaultDir);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(configPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read generation config ${configPath}: ${
+        (error as Error).message
+      }`
+    );
+  }
+
+  const result = generationConfigSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `Invalid generation config ${configPath}:\n${z.prettifyError(
+        result.error
+      )}`
+    );
+  }
+  return resolveGenerationConfig(result.data, dirname(resolve(configPath)));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import {
+  costOf,
+  createUsageMeter,
+  emptyUsage,
+  findPrice,
+  shareUsage,
+} from "./generation-cost";
+
+const usage = {
+  promptTokens: 2_000,
+  completionTokens: 1_000,
+  totalTokens: 3_000,
+  reasoningTokens: 600,
+};
+
+describe("findPrice", () => {
+  test("falls back to the longest priced prefix of a dated model", () => {
+    const table = {
+      "gpt-5": { inputPerMillion: 1.25, outputPerMillion: 10 },
+      "gpt-5-mini": { inputPerMillion: 0.25, outputPerMillion: 2 },
+    };
+    expect(findPrice(table, "gpt-5-mini-2025-08-07")).toBe(table["gpt-5-mini"]);
+    expect(findPrice(table, "gpt-5-2025-08-07")).toBe(table["gpt-5"]);
+    expect(findPrice(table, "gpt-4o")).toBeNull();
+  });
+});
+
+describe("createUsageMeter", () => {
+  test("prices calls and stops at the budget", () => {
+    const price = { inputPerMillion: 1_000, outputPerMillion: 2_000 };
+    expect(costOf(usage, price)).toBe(4);
+
+    const meter = createUsageMeter(price, 10);
+    const job = emptyUsage();
+    meter.record(usage, job);
+    meter.record(usage, job);
+    expect(meter.exhausted).toBe(false);
+    meter.record(null, job);
+    meter.record(usage, job);
+
+    expect(meter.exhausted).toBe(true);
+    expect(job).toEqual(meter.totals);
+    expect(meter.totals).toMatchObject({
+      calls: 4,
+      reasoningTokens: 1_800,
+      costUsd: 12,
+    });
+  });
+
+  test("splits one call's usage across the jobs it produced", () => {
+    const totals = { ...emptyUsage(), calls: 1, promptTokens: 3, costUsd: 0.3 };
+    const share = shareUsage(totals, 3);
+    expect(share.calls).toBeCloseTo(1 / 3, 10);
+    expect(share.promptTokens).toBe(1);
+    expect(share.costUsd).toBeCloseTo(0.1, 10);
+  });
+});
@@ -0,0 +1,119 @@
+import type { TokenUsage } from "./llm-provider";
+
+// USD per million tokens.
+export type ModelPrice = {
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export function emptyUsage(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+// Dated snapshots ("gpt-5-2025-08-07") fall back to the longest priced prefix.
+export function findPrice(table: PriceTable, model: string): ModelPrice | null {
+  if (table[model]) return table[model];
+  const prefix = Object.keys(table)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix]! : null;
+}
+
+// Reasoning tokens are billed as part of the completion tokens.
+export function costOf(usage: TokenUsage, price: ModelPrice | null): number {
+  if (!price) return 0;
+  return (
+    (usage.promptTokens * price.inputPerMillion +
+      usage.completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+export function addUsage(
+  totals: UsageTotals,
+  usage: TokenUsage | null,
+  price: ModelPrice | null
+): void {
+  totals.calls += 1;
+  if (!usage) return;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.reasoningTokens += usage.reasoningTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.costUsd += costOf(usage, price);
+}
+
+export function mergeUsage(target: UsageTotals, source: UsageTotals): void {
+  target.calls += source.calls;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.reasoningTokens += source.reasoningTokens;
+  target.totalTokens += source.totalTokens;
+  target.costUsd += source.costUsd;
+}
+
+// Splits one call's usage across the jobs it produced (a contrast group is
+// generated in a single call).
+export function shareUsage(totals: UsageTotals, parts: number): UsageTotals {
+  const share = (value: number) => value / parts;
+  return {
+    calls: share(totals.calls),
+    promptTokens: Math.round(share(totals.promptTokens)),
+    completionTokens: Math.round(share(totals.completionTokens)),
+    reasoningTokens: Math.round(share(totals.reasoningTokens)),
+    totalTokens: Math.round(share(totals.totalTokens)),
+    costUsd: share(totals.costUsd),
+  };
+}
+
+// Once the budget is exhausted the generator schedules no new jobs or retries;
+// calls already in flight still finish and `--resume` picks up the rest. Job
+// usage goes to the journal, and the totals to the progress bar and
+// `intent-dataset-run-summary.json`.
+export function createUsageMeter(
+  price: ModelPrice | null,
+  budgetUsd: number | null
+) {
+  const totals = emptyUsage();
+  return {
+    totals,
+    budgetUsd,
+    record(usage: TokenUsage | null, job: UsageTotals): void {
+      addUsage(totals, usage, price);
+      addUsage(job, usage, price);
+    },
+    get exhausted(): boolean {
+      return budgetUsd !== null && totals.costUsd >= budgetUsd;
+    },
+  };
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 10 ? 4 : 2)}`;
+}
+
+export function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(2)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { DatasetRow } from "./dataset-rows";
+import {
+  journalPaths,
+  openGenerationJournal,
+  type JobSummary,
+} from "./generation-journal";
+
+async function withOutput(run: (output: string) => Promise<void>) {
+  const dir = await mkdtemp(path.join(tmpdir(), "generation-journal-"));
+  try {
+    await run(path.join(dir, "intent-dataset-train.jsonl"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+const job = (globalIndex: number): JobSummary => ({
+  globalIndex,
+  action: "noop",
+  partition: "train",
+  theme: "Awaiting signatures",
+  index: globalIndex,
+  messageStyle: "minimal",
+  language: "en",
+});
+
+const row = { final: "noop" } as DatasetRow;
+
+describe("openGenerationJournal", () => {
+  test("resumes after a truncated last line and keeps appending cleanly", () =>
+    withOutput(async (output) => {
+      const { journal: journalPath, deadLetter: deadLetterPath } =
+        journalPaths(output);
+      const first = await openGenerationJournal({
+        journalPath,
+        deadLetterPath,
+        resume: false,
+      });
+      await first.record(job(0), 1, row);
+      await first.record(job(1), 2, row);
+      await first.deadLetter(job(2), 3, new Error("teacher kept failing"));
+      await appendFile(journalPath, '{"job": {"globalIndex": 3');
+
+      const resumed = await openGenerationJournal({
+        journalPath,
+        deadLetterPath,
+        resume: true,
+      });
+      expect(resumed.resumed).toBe(2);
+      expect([0, 1, 2, 3].map((index) => resumed.has(index))).toEqual([
+        true,
+        true,
+        false,
+        false,
+      ]);
+      expect(await readFile(deadLetterPath, "utf8")).toBe("");
+      expect(
+        (await resumed.entries()).map((entry) => entry.job.globalIndex)
+      ).toEqual([0, 1]);
+
+      await resumed.record(job(3), 1, row);
+      await resumed.record(job(4), 1, row);
+      expect(
+        (await resumed.entries()).map((entry) => entry.job.globalIndex)
+      ).toEqual([0, 1, 3, 4]);
+    }));
+
+  test("starts an empty journal when not resuming", () =>
+    withOutput(async (output) => {
+      const paths = journalPaths(output);
+      const options = {
+        journalPath: paths.journal,
+        deadLetterPath: paths.deadLetter,
+      };
+      const first = await openGenerationJournal({ ...options, resume: false });
+      await first.record(job(0), 1, row);
+
+      const fresh = await openGenerationJournal({ ...options, resume: false });
+      expect(fresh.resumed).toBe(0);
+      expect(await fresh.entries()).toEqual([]);
+    }));
+});
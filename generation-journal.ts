@@ -0,0 +1,148 @@
+import { appendFile, readFile, truncate, writeFile } from "node:fs/promises";
+import type { LedgerShape } from "./coverage-planner";
+import type { ActionKind, DatasetRow } from "./dataset-rows";
+import type { UsageTotals } from "./generation-cost";
+
+export type JobSummary = {
+  globalIndex: number;
+  action: ActionKind;
+  partition: string;
+  theme: string;
+  index: number;
+  messageStyle: string;
+  language: string;
+  ledger?: LedgerShape;
+};
+
+export type JournalEntry = {
+  job: JobSummary;
+  attempts: number;
+  completedAt: string;
+  row: DatasetRow;
+  usage?: UsageTotals;
+};
+
+export type DeadLetterEntry = {
+  job: JobSummary;
+  attempts: number;
+  failedAt: string;
+  error: string;
+  usage?: UsageTotals;
+};
+
+async function readText(filePath: string): Promise<string> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+    throw error;
+  }
+}
+
+async function readJsonl<T>(filePath: string): Promise<T[]> {
+  const text = await readText(filePath);
+  const entries: T[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch {
+      // A crash mid-append can leave a truncated last line; that job reruns.
+    }
+  }
+  return entries;
+}
+
+// Appending after a truncated last line would glue the next entry onto it, so
+// the partial line is cut off before the journal is reused.
+async function dropPartialLine(filePath: string) {
+  const text = await readText(filePath);
+  if (text === "" || text.endsWith("\n")) return;
+  const complete = text.slice(0, text.lastIndexOf("\n") + 1);
+  await truncate(filePath, Buffer.byteLength(complete));
+}
+
+export function journalPaths(output: string) {
+  return {
+    journal: output.replace(/\.jsonl$/i, ".journal.jsonl"),
+    deadLetter: output.replace(/\.jsonl$/i, ".dead-letter.jsonl"),
+  };
+}
+
+// Jobs land in the dead letter once they exhaust `maxAttempts` or fail with an
+// error that cannot be retried; it is cleared on open because a resumed run
+// retries them. The generator skips journal rows that are not in the current
+// plan and rebuilds its output files from `entries()` at the end of every run.
+export async function openGenerationJournal(options: {
+  journalPath: string;
+  deadLetterPath: string;
+  resume: boolean;
+}) {
+  const { journalPath, deadLetterPath } = options;
+  const completed = new Set<number>();
+
+  if (options.resume) {
+    await dropPartialLine(journalPath);
+    for (const entry of await readJsonl<JournalEntry>(journalPath)) {
+      completed.add(entry.job.globalIndex);
+    }
+  } else {
+    await writeFile(journalPath, "");
+  }
+  await writeFile(deadLetterPath, "");
+
+  let failed = 0;
+
+  return {
+    resumed: completed.size,
+    has(globalIndex: number): boolean {
+      return completed.has(globalIndex);
+    },
+    get failed(): number {
+      return failed;
+    },
+    async record(
+      job: JobSummary,
+      attempts: number,
+      row: DatasetRow,
+      usage?: UsageTotals
+    ) {
+      const entry: JournalEntry = {
+        job,
+        attempts,
+        completedAt: new Date().toISOString(),
+        row,
+        ...(usage ? { usage } : {}),
+      };
+      await appendFile(journalPath, JSON.stringify(entry) + "\n");
+      completed.add(job.globalIndex);
+    },
+    async deadLetter(
+      job: JobSummary,
+      attempts: number,
+      error: Error,
+      usage?: UsageTotals
+    ) {
+      const entry: DeadLetterEntry = {
+        job,
+        attempts,
+        failedAt: new Date().toISOString(),
+        error: error.message,
+        ...(usage ? { usage } : {}),
+      };
+      await appendFile(deadLetterPath, JSON.stringify(entry) + "\n");
+      failed += 1;
+    },
+    async entries(): Promise<JournalEntry[]> {
+      const byIndex = new Map<number, JournalEntry>();
+      for (const entry of await readJsonl<JournalEntry>(journalPath)) {
+        byIndex.set(entry.job.globalIndex, entry);
+      }
+      return [...byIndex.values()];
+    },
+  };
+}
+
+export type GenerationJournal = Awaited<
+  ReturnType<typeof openGenerationJournal>
+>;
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { createIntentGuardrail, DEFAULT_FALLBACK } from "./intent-guardrail";
+import { createMockProvider } from "./llm-provider";
+
+const tasks = [{ id: "task-1", summary: "Book venue", last_update: "Asked" }];
+const messages = [{ role: "user" as const, content: "any news?" }];
+
+const voiceFallback = {
+  action: "reply" as const,
+  args: { text: "Ask the caller to repeat the request." },
+};
+
+function guardrail(contents: string[]) {
+  return createIntentGuardrail({
+    provider: createMockProvider({
+      fixtures: contents.map((content) => ({ content })),
+    }),
+    fallbacks: { voice: voiceFallback },
+  });
+}
+
+describe("createIntentGuardrail", () => {
+  test("repairs a decision wrapped in prose", async () => {
+    const result = await guardrail([
+      'Sure: ```json\n{"action": "noop",}\n```',
+    ]).decide(messages, tasks);
+    expect(result.path).toBe("repaired");
+    expect(result.decision).toEqual({ action: "noop" });
+  });
+
+  test("re-prompts once and then falls back for the channel", async () => {
+    const result = await guardrail([
+      '{"action": "update_task", "args": {"task_id": "task-9", "explanation": "x"}}',
+      "not json",
+    ]).decide(messages, tasks, "voice");
+    expect(result.path).toBe("fallback");
+    expect(result.attempts).toHaveLength(2);
+    expect(result.decision).toEqual(voiceFallback);
+  });
+
+  test("counts unknown channels as other", async () => {
+    const guarded = guardrail(["nope", "nope", "nope", "nope", "nope", "nope"]);
+    const unknown = await guarded.decide(messages, tasks, "toString");
+    await guarded.decide(messages, tasks, "voice");
+    await guarded.decide(messages, tasks, "made-up");
+
+    expect(unknown.decision).toEqual(DEFAULT_FALLBACK);
+    const metrics = guarded.metrics();
+    expect(metrics).toContain(
+      'intent_guardrail_decisions_total{channel="other",path="fallback"} 2'
+    );
+    expect(metrics).toContain(
+      'intent_guardrail_decisions_total{channel="voice",path="fallback"} 1'
+    );
+    expect(metrics).not.toContain("made-up");
+  });
+});
@@ -0,0 +1,264 @@
+import { z } from "zod";
+import { parseActionCall } from "./action-format";
+import { taskIdArgs } from "./action-registry";
+import {
+  schema,
+  validateAgainstLedger,
+  type IntentDecision,
+  type TaskRecord,
+} from "./intent-prompt";
+import { buildIntentMessages } from "./intent-router";
+import type { ChatMessage, LLMProvider } from "./llm-provider";
+import { createMetricsRegistry } from "./metrics";
+import { getPrompt, type PromptEntry } from "./prompt-registry";
+
+// clean: the first output was a valid decision as-is.
+// repaired: the first output needed lenient extraction (prose, fences, call
+// syntax, trailing commas) but was valid once extracted.
+// retried: the first output was rejected and the re-prompt produced a valid
+// decision. fallback: both attempts failed; the channel default was used.
+export type GuardrailPath = "clean" | "repaired" | "retried" | "fallback";
+
+export type GuardrailAttempt = {
+  content: string | null;
+  repaired: boolean;
+  error: string | null;
+};
+
+export type GuardedDecision = {
+  decision: IntentDecision;
+  path: GuardrailPath;
+  channel: string;
+  model: string;
+  attempts: GuardrailAttempt[];
+  latencyMs: number;
+};
+
+export type GuardrailConfig = {
+  provider: LLMProvider;
+  prompt?: PromptEntry;
+  timeoutMs?: number;
+  // Safe decisions by channel; channels without an entry use `default` and
+  // are counted as `other` in metrics.
+  fallbacks?: Record<string, IntentDecision>;
+  onDecision?: (result: GuardedDecision) => void;
+};
+
+export const DEFAULT_FALLBACK: IntentDecision = {
+  action: "reply",
+  args: {
+    text: "Tell the user you could not work out what they need and ask them to clarify their request.",
+  },
+};
+
+export const DEFAULT_CHANNEL = "default";
+
+// Metrics label for channels that have no fallback of their own, so callers
+// cannot grow the label set with arbitrary channel names.
+export const OTHER_CHANNEL = "other";
+
+const TRAILING_COMMA = /,(\s*[}\]])/g;
+
+function parseLenientJson(text: string): { value: unknown; repaired: boolean } {
+  try {
+    return { value: JSON.parse(text), repaired: false };
+  } catch (error) {
+    const cleaned = text.replace(TRAILING_COMMA, "$1");
+    if (cleaned === text) throw error;
+    return { value: JSON.parse(cleaned), repaired: true };
+  }
+}
+
+// Every top-level {...} span in the text, skipping braces inside strings.
+function objectSpans(text: string): string[] {
+  const spans: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i += 1;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = depth > 0;
+    } else if (char === "{") {
+      if (depth === 0) start = i;
+      depth += 1;
+    } else if (char === "}" && depth > 0) {
+      depth -= 1;
+      if (depth === 0) spans.push(text.slice(start, i + 1));
+    }
+  }
+  return spans;
+}
+
+// Runtime counterpart of the generator's extractJson: finds the decision in
+// bare JSON, a fenced block, an object embedded in prose, or an action call.
+export function extractDecision(content: string): {
+  value: unknown;
+  repaired: boolean;
+} {
+  const trimmed = content.trim();
+  try {
+    return parseLenientJson(trimmed);
+  } catch {
+    // Not bare JSON; look for it inside the text.
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1];
+  const candidates = [
+    ...(fenced ? [fenced.trim()] : []),
+    ...objectSpans(trimmed),
+  ];
+  for (const candidate of candidates) {
+    try {
+      const { value } = parseLenientJson(candidate);
+      if (value && typeof value === "object" && "action" in value) {
+        return { value, repaired: true };
+      }
+    } catch {
+      // Try the next candidate.
+    }
+  }
+
+  for (const line of trimmed.split("\n").reverse()) {
+    try {
+      return { value: parseActionCall(line), repaired: true };
+    } catch {
+      // Not a call string either.
+    }
+  }
+  throw new Error("No JSON decision found in the output");
+}
+
+export function checkDecision(
+  value: unknown,
+  tasks: TaskRecord[]
+): IntentDecision {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(
+      `Output failed schema: ${z.prettifyError(parsed.error).replace(/\s*\n\s*/g, " ")}`
+    );
+  }
+  const [issue] = validateAgainstLedger(parsed.data, tasks);
+  if (issue) throw new Error(issue.message);
+  return parsed.data;
+}
+
+function repairPrompt(error: string): string {
+  return `Your previous output was rejected: ${error}. Respond again with only the JSON decision object for the conversation above, using the action schema from the instructions and only task ids from the ongoing task ledger.`;
+}
+
+// Always returns a usable decision: an output that fails extraction, the
+// schema or the ledger check is re-prompted once with the specific error, and
+// if that also fails the channel fallback is returned. Fallbacks must not
+// target a task, because they cannot know which tasks the ledger holds.
+export function createIntentGuardrail(config: GuardrailConfig) {
+  const prompt = config.prompt ?? getPrompt();
+  const fallbacks = Object.fromEntries(
+    Object.entries({ default: DEFAULT_FALLBACK, ...config.fallbacks }).map(
+      ([channel, decision]) => {
+        const checked = schema.parse(decision);
+        if (taskIdArgs(checked).length > 0) {
+          throw new Error(
+            `Fallback for channel '${channel}' must not target a task (${checked.action})`
+          );
+        }
+        return [channel, checked];
+      }
+    )
+  );
+
+  const metrics = createMetricsRegistry();
+  const outcomes = metrics.counter(
+    "intent_guardrail_decisions_total",
+    "Guarded intent decisions by channel (configured channels or other) and path."
+  );
+
+  async function attempt(
+    messages: ChatMessage[],
+    tasks: TaskRecord[],
+    attempts: GuardrailAttempt[]
+  ): Promise<IntentDecision | null> {
+    let content: string | null = null;
+    let repaired = false;
+    try {
+      content = (
+        await config.provider.complete({
+          messages,
+          jsonMode: true,
+          signal: AbortSignal.timeout(config.timeoutMs ?? 2000),
+        })
+      ).content;
+      const extracted = extractDecision(content);
+      repaired = extracted.repaired;
+      const decision = checkDecision(extracted.value, tasks);
+      attempts.push({ content, repaired, error: null });
+      return decision;
+    } catch (error) {
+      const message = (error as Error).message;
+      attempts.push({
+        content,
+        repaired,
+        error: content === null ? `Request failed: ${message}` : message,
+      });
+      return null;
+    }
+  }
+
+  async function decide(
+    messages: ChatMessage[],
+    tasks: TaskRecord[],
+    channel = DEFAULT_CHANNEL
+  ): Promise<GuardedDecision> {
+    const startedAt = performance.now();
+    const conversation = buildIntentMessages(messages, tasks, prompt);
+    const attempts: GuardrailAttempt[] = [];
+
+    let decision = await attempt(conversation, tasks, attempts);
+    let path: GuardrailPath = attempts[0]!.repaired ? "repaired" : "clean";
+
+    if (!decision) {
+      // A failed request has no output to correct, so it is simply retried.
+      const { content, error } = attempts[0]!;
+      decision = await attempt(
+        content === null
+          ? conversation
+          : [
+              ...conversation,
+              { role: "assistant", content },
+              { role: "system", content: repairPrompt(error!) },
+            ],
+        tasks,
+        attempts
+      );
+      path = "retried";
+    }
+
+    if (!decision) {
+      decision = Object.hasOwn(fallbacks, channel)
+        ? fallbacks[channel]!
+        : fallbacks.default!;
+      path = "fallback";
+    }
+
+    outcomes.inc({
+      channel: Object.hasOwn(fallbacks, channel) ? channel : OTHER_CHANNEL,
+      path,
+    });
+    const result: GuardedDecision = {
+      decision,
+      path,
+      channel,
+      model: config.provider.model,
+      attempts,
+      latencyMs: performance.now() - startedAt,
+    };
+    config.onDecision?.(result);
+    return result;
+  }
+
+  return { decide, metrics: metrics.render };
+}
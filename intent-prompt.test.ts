@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { parseDecision, validateAgainstLedger } from "./intent-prompt";
+
+const tasks = [
+  { id: "task-1", summary: "Book venue", last_update: "Asked" },
+  { id: "task-2", summary: "Order catering", last_update: "Shortlisted" },
+];
+
+describe("parseDecision", () => {
+  test("accepts each action with exactly its own arguments", () => {
+    expect(parseDecision('{"action": "noop"}')).toEqual({ action: "noop" });
+    expect(
+      parseDecision(
+        '{"action": "cancel_task", "args": {"task_id": "task-2", "explanation": "Not needed."}}'
+      )
+    ).toEqual({
+      action: "cancel_task",
+      args: { task_id: "task-2", explanation: "Not needed." },
+    });
+  });
+
+  test("rejects missing, blank and foreign arguments", () => {
+    expect(() =>
+      parseDecision('{"action": "update_task", "args": {}}')
+    ).toThrow();
+    expect(() =>
+      parseDecision('{"action": "reply", "args": {"text": "  "}}')
+    ).toThrow();
+    expect(() =>
+      parseDecision(
+        '{"action": "reply", "args": {"text": "Hi.", "task_id": "task-1"}}'
+      )
+    ).toThrow();
+    expect(() => parseDecision('{"action": "escalate"}')).toThrow();
+  });
+});
+
+describe("validateAgainstLedger", () => {
+  test("flags task ids that are not in the ledger", () => {
+    const decision = parseDecision(
+      '{"action": "update_task", "args": {"task_id": "task-9", "explanation": "Done."}}'
+    );
+    expect(validateAgainstLedger(decision, tasks)).toEqual([
+      {
+        code: "unknown_task_id",
+        message: "Task id 'task-9' is not in the ledger",
+      },
+    ]);
+  });
+
+  test("flags duplicate ids in the ledger itself", () => {
+    const issues = validateAgainstLedger({ action: "noop" }, [
+      ...tasks,
+      tasks[0]!,
+    ]);
+    expect(issues.map((issue) => issue.code)).toEqual(["duplicate_task_id"]);
+  });
+});
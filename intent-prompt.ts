@@ -1,9 +1,123 @@
 import { z } from "zod";
-
-export const schema = z.object({
-  action: z.enum(["reply", "start_task", "update_task", "cancel_task", "noop"]),
-  args: z.record(z.string(), z.string()),
-});
+import {
+  ACTIONS,
+  decisionSchema,
+  signature,
+  taskIdArgs,
+  type ActionDefinition,
+  type IntentDecision,
+} from "./action-registry";
+
+export const schema = decisionSchema;
+
+export type { IntentDecision };
+
+export function parseDecision(content: string): IntentDecision {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const raw = fenced ? (fenced[1] ?? "") : content;
+  return schema.parse(JSON.parse(raw.trim()));
+}
+
+export type TaskRecord = {
+  id: string;
+  summary: string;
+  last_update: string;
+};
+
+export type LedgerIssue = {
+  code: "unknown_task_id" | "duplicate_task_id";
+  message: string;
+};
+
+export function decisionTaskId(decision: IntentDecision): string | null {
+  return taskIdArgs(decision)[0] ?? null;
+}
+
+// The schema only checks that each action carries exactly its own non-empty
+// arguments; this catches what it cannot see. The generator, the service, the
+// router and the eval run both checks.
+export function validateAgainstLedger(
+  decision: IntentDecision,
+  tasks: TaskRecord[]
+): LedgerIssue[] {
+  const issues: LedgerIssue[] = [];
+  const seen = new Set<string>();
+  for (const task of tasks) {
+    if (seen.has(task.id)) {
+      issues.push({
+        code: "duplicate_task_id",
+        message: `Ledger contains duplicate task id '${task.id}'`,
+      });
+    }
+    seen.add(task.id);
+  }
+
+  for (const taskId of taskIdArgs(decision)) {
+    if (seen.has(taskId)) continue;
+    issues.push({
+      code: "unknown_task_id",
+      message: `Task id '${taskId}' is not in the ledger`,
+    });
+  }
+
+  return issues;
+}
+
+export const LEDGER_HEADER = "## Ongoing tasks:";
+
+export function buildLedgerMessage(tasks: TaskRecord[]): string {
+  return `${LEDGER_HEADER}\n${JSON.stringify(tasks, null, 2)}`;
+}
+
+function listPhrase(items: string[]): string {
+  return items.length <= 1
+    ? items.join("")
+    : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function renderFinalCommand(action: ActionDefinition): string {
+  const args = Object.entries(action.example.args)
+    .map(([name, value]) => `"${name}": ${JSON.stringify(value)}`)
+    .join(", ");
+  return args
+    ? `{ "action": "${action.name}", "args": { ${args} } }`
+    : `{ "action": "${action.name}" }`;
+}
+
+function renderExample(action: ActionDefinition): string {
+  const { messages, tasks, reasoning } = action.example;
+  return [
+    `#### Example: '${signature(action)}'`,
+    "",
+    "- **Context**",
+    "  - Messages:",
+    ...messages.map((message) => `    - ${message}`),
+    "  - Tasks:",
+    ...tasks.map((task) => `    - '${task}'`),
+    "- **Scratchpad reasoning (not emitted)**",
+    ...reasoning.map((step) => `  - ${step}`),
+    "- **Final command**",
+    `  - ${renderFinalCommand(action)}`,
+  ].join("\n");
+}
+
+const actionList = ACTIONS.map(
+  (action) => `- '${signature(action)}' — ${action.description}`
+).join("\n");
+
+const actionGuidelines = ACTIONS.flatMap((action) =>
+  action.guideline ? [`- ${action.guideline}`] : []
+).join("\n");
+
+const argsRequirements = listPhrase(
+  ACTIONS.map((action) =>
+    action.params.length === 0
+      ? `no args for ${action.name}`
+      : `${listPhrase(action.params.map((param) => `'${param.name}'`))} for ${
+          action.name
+        }`
+  )
+);
 
 export const intentPrompt = `
 # Intent Orchestrator System Prompt
@@ -26,126 +140,39 @@ You are the Intent Orchestrator for qOS. Your role is to read the full conversat
 
 - Extract explicit asks, implicit expectations, deadlines, and emotional tone from the messages.
 - Map the user's request against existing tasks. Prefer updating or completing a relevant task instead of opening duplicates.
-- Start a new task only when the user expectation clearly requires offloading work that cannot be satisfied with an immediate reply.
-- Cancel tasks that are obsolete, unrequested, or blocked without realistic path forward; explain why.
-- 'noop' when truly nothing should change yet (e.g., waiting for external completion) and acknowledge any outstanding dependencies in reasoning.
-- Reply directly when the user expects an immediate visible response or clarification.
+${actionGuidelines}
 
 ## Available Actions
 
-- 'reply(text)' — Provide a short assistant-facing message. Another model will turn this into the final user reply, so focus on intent and key content rather than surface phrasing.
-- 'start_task(explanation of the task)' — Open a new task; describe the objective and desired outcome so downstream agents know what to do.
-- 'update_task(task_id, explanation of the update)' — Progress an existing task; reference the task id and describe the latest progress, info gathered, or next step.
-- 'cancel_task(task_id, explanation of the cancel)' — Close an existing task; explain why it should stop or what blocked it.
-- 'noop' — Take no new action while keeping state unchanged. Use only when active monitoring or external tool calls are in flight (especially when multiple tool results may still arrive) and no outward response is appropriate yet.
+${actionList}
 
 ## Reasoning Strategy
 
 1. **Intent Analysis**: Examine the entire conversation to determine the user's explicit and implicit goals, clarifications requested, and any emotional cues that might influence the response.
 2. **Task Ledger Review**: Inspect each existing task for relevance, blockers, and alignment with the latest user message. Identify gaps where a new task may be warranted or where cancellations are justified.
-3. **Option Exploration**: Consider multiple candidate actions (reply, start, update, cancel, noop). Evaluate trade-offs such as redundancy, user expectations, urgency, system constraints, and whether ongoing tool executions or partial updates justify waiting.
+3. **Option Exploration**: Consider multiple candidate actions (${ACTIONS.map((action) => action.name).join(", ")}). Evaluate trade-offs such as redundancy, user expectations, urgency, system constraints, and whether ongoing tool executions or partial updates justify waiting.
 4. **Action Commitment**: Choose the single action that best advances the user's objective while keeping the task ledger coherent. Internally compare against alternatives to confirm this is the most suitable path.
 
 Use the model's dedicated reasoning scratchpad to execute this strategy. Do not expose the reasoning in the final output.
 
 ## Action Commands
 
-- 'reply(text)' — Provide a short assistant-facing message. Another model will turn this into the final user reply, so focus on intent and key content rather than surface phrasing.
-- 'start_task(explanation of the task)' — Open a new task; describe the objective and desired outcome so downstream agents know what to do.
-- 'update_task(task_id, explanation of the update)' — Progress an existing task; reference the task id and state the new status, info gathered, or next step.
-- 'cancel_task(task_id, explanation of the cancel)' — Close an existing task; explain why it should stop or what blocked it.
-- 'noop' — Take no new action while keeping state unchanged. Use only when active monitoring or external tool calls are in flight (especially when multiple tool results may still arrive) and no outward response is appropriate yet.
+${actionList}
 
 ### Usage Examples
 
-#### Example: 'reply(text)'
-
-- **Context**
-  - Messages:
-    - User: “Thanks for the update. Can you remind me when the report will be ready?”
-    - Assistant (previous): “Working on the market analysis report now.”
-  - Tasks:
-    - '{ id: "task-14", summary: "Draft marketing brief", last_update: "Final sent to user yesterday" }'
-    - '{ id: "task-21", summary: "Monitor competitor pricing", last_update: "Awaiting partner spreadsheet" }'
-- **Scratchpad reasoning (not emitted)**
-  - User expects an immediate clarification; existing tasks do not impact the answer.
-  - Ledger remains accurate; no need to open or adjust tasks.
-  - Provide timing reassurance so downstream responder can phrase it naturally.
-- **Final command**
-  - { "action": "reply", "args": { "text": "Let the user know the market analysis report will be ready by 5pm today and invite them to ask for edits." } }
-
-#### Example: 'start_task(explanation of the task)'
-
-- **Context**
-  - Messages:
-    - User: “Can you compile a comparison of three EU-based payroll providers with pricing and compliance details?”
-  - Tasks:
-    - '{ id: "task-21", summary: "Monitor vendor onboarding checklist", last_update: "Waiting for legal approval" }'
-    - '{ id: "task-22", summary: "Follow up with finance on Q3 budget", last_update: "Finance promised update tomorrow" }'
-- **Scratchpad reasoning (not emitted)**
-  - Request requires multi-step research and synthesis.
-  - Existing tasks cover different objectives; avoid misusing them for the new ask.
-  - Create a fresh task with clear research deliverable for downstream execution.
-- **Final command**
-    - { "action": "start_task", "args": { "explanation": "Research three EU payroll providers, capture pricing tiers, compliance certifications, and produce a concise comparison." } }
-
-#### Example: 'update_task(task_id, explanation of the update)'
-
-- **Context**
-  - Messages:
-    - System: 'task-32' exists to “Coordinate demo with Vendor X.”
-    - User: “Did we ever hear back from Vendor X about scheduling?”
-  - Tasks:
-    - '{ id: "task-32", summary: "Schedule demo with Vendor X", last_update: "Awaiting vendor confirmation" }'
-    - '{ id: "task-40", summary: "Prepare onboarding playbook", last_update: "Draft outline ready for review" }'
-- **Scratchpad reasoning (not emitted)**
-  - Recent progress: assistant emailed vendor this morning and got reply confirming time.
-  - 'task-40' unaffected by this exchange, so leave it as-is.
-  - Update 'task-32' so shared state reflects the confirmed schedule before downstream messaging.
-- **Final command**
-  - { "action": "update_task", "args": { "task_id": "task-32", "explanation": "Vendor confirmed the product demo for Wednesday at 10am PT; calendar invite sent to the user." } }
-
-#### Example: 'cancel_task(task_id, explanation of the cancel)'
-
-- **Context**
-  - Messages:
-    - User: “No need to keep working on the London offsite planning—we decided to stay local.”
-  - Tasks:
-    - '{ id: "task-8", summary: "Plan London offsite logistics", last_update: "Comparing venue proposals" }'
-    - '{ id: "task-9", summary: "Arrange local catering options", last_update: "Shortlisted three vendors" }'
-- **Scratchpad reasoning (not emitted)**
-  - User explicitly cancels the initiative.
-  - Validate that related tasks ('task-9') remain relevant because event continues locally.
-  - Close only the London-focused task and record rationale for future audits.
-- **Final command**
-  - { "action": "cancel_task", "args": { "task_id": "task-8", "explanation": "User chose a local option, so London offsite planning is no longer required." } }
-
-#### Example: 'noop'
-
-- **Context**
-  - Messages:
-    - User: “Any news on the NDA and the data export you kicked off?”
-    - Tool callback: “Partner viewed the NDA at 14:32; signature pending.”
-    - Tool callback: “Analytics export job completed chunk 2 of 5; continuing.”
-  - Tasks:
-    - '{ id: "task-21", summary: "Obtain signed NDA from partner", last_update: "Sent for signature; awaiting partner completion" }'
-    - '{ id: "task-52", summary: "Run historical data export", last_update: "Export running via analytics tool" }'
-- **Scratchpad reasoning (not emitted)**
-  - Multiple tool calls are active, each returning partial progress.
-  - Final outputs still pending; altering tasks or replying now could mislead the user.
-  - Mirror the wait-tool behavior by holding position until tools finish or new input arrives.
-- **Final command**
-  - { "action": "noop" }
+${ACTIONS.map(renderExample).join("\n\n")}
 
 ## Output Instructions
 
 First, think carefully and step by step using the Reasoning Strategy. Once you are confident in the best action, emit **only** the command representing that action. The output must:
 
 - Reference task identifiers precisely when updating or cancelling tasks.
+- Include exactly the args required by the chosen action: ${argsRequirements}.
 - Avoid any additional prose, bullets, or metadata—no reasoning transcript, no headings, no filler.
 
 If critical information is missing, acknowledge the ambiguity within your silent reasoning and choose the safest command. Always provide a decision—never terminate without an action command.
 
 Respond in JSON format following the schema:
-${z.toJSONSchema(schema)}
+${JSON.stringify(z.toJSONSchema(schema), null, 2)}
 `;
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import { createIntentRouter } from "./intent-router";
+import {
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  type MockFixture,
+} from "./llm-provider";
+import { startProviderStub } from "./provider-stub";
+
+const tasks = [{ id: "task-1", summary: "Book venue", last_update: "Asked" }];
+const messages = [{ role: "user" as const, content: "any news?" }];
+
+function router(
+  student: MockFixture[],
+  teacher: MockFixture[],
+  teacherBudgetMs?: number
+) {
+  return createIntentRouter({
+    student: createMockProvider({ fixtures: student, model: "student" }),
+    teacher: createMockProvider({ fixtures: teacher, model: "teacher" }),
+    latencyBudgetMs: 1000,
+    teacherBudgetMs,
+    confidence: { method: "logprobs", threshold: 0.8 },
+  });
+}
+
+const confident: MockFixture = {
+  content: '{"action": "noop"}',
+  logprobs: [{ token: '{"action": "noop"}', logprob: -0.01 }],
+};
+const unsure: MockFixture = {
+  content: '{"action": "noop"}',
+  logprobs: [{ token: '{"action": "noop"}', logprob: -2 }],
+};
+
+describe("createIntentRouter", () => {
+  test("answers with a confident student", async () => {
+    const result = await router([confident], []).route(messages, tasks);
+    expect(result.answeredBy).toBe("student");
+    expect(result.escalated).toBe(false);
+  });
+
+  test("escalates an unknown task id to the teacher", async () => {
+    const result = await router(
+      [
+        {
+          content:
+            '{"action": "cancel_task", "args": {"task_id": "task-9", "explanation": "x"}}',
+        },
+      ],
+      [{ content: '{"action": "reply", "args": {"text": "Ask which task."}}' }]
+    ).route(messages, tasks);
+    expect(result.reasons).toEqual(["unknown_task_id"]);
+    expect(result.answeredBy).toBe("teacher");
+    expect(result.model).toBe("teacher");
+  });
+
+  test("keeps a low-confidence student decision when the teacher fails", async () => {
+    const result = await router(
+      [unsure],
+      [{ error: { status: 500, message: "down" } }]
+    ).route(messages, tasks);
+    expect(result.decision).toEqual({ action: "noop" });
+    expect(result.answeredBy).toBe("student");
+    expect(result.details.at(-1)).toContain("Teacher request failed");
+  });
+
+  test("reports no answer when neither model produced a decision", async () => {
+    const result = await router(
+      [{ content: "not json" }],
+      [{ content: '{"action": "noop"}', delayMs: 200 }],
+      20
+    ).route(messages, tasks);
+    expect(result.decision).toBeNull();
+    expect(result.answeredBy).toBeNull();
+    expect(result.model).toBeNull();
+    expect(result.details.at(-1)).toBe("Teacher exceeded 20ms budget");
+  });
+});
+
+describe("createIntentRouter over OpenAI-compatible stubs", () => {
+  async function routeOverHttp(student: MockFixture[], teacher: MockFixture[]) {
+    const studentStub = startProviderStub(
+      createMockProvider({ fixtures: student, model: "student" })
+    );
+    const teacherStub = startProviderStub(
+      createMockProvider({ fixtures: teacher, model: "teacher" })
+    );
+    try {
+      return await createIntentRouter({
+        student: createOpenAICompatibleProvider({
+          baseURL: studentStub.url,
+          model: "student",
+        }),
+        teacher: createOpenAICompatibleProvider({
+          baseURL: teacherStub.url,
+          model: "teacher",
+        }),
+        latencyBudgetMs: 1000,
+        confidence: { method: "logprobs", threshold: 0.8 },
+      }).route(messages, tasks);
+    } finally {
+      studentStub.stop();
+      teacherStub.stop();
+    }
+  }
+
+  test("scores the student from logprobs sent over HTTP", async () => {
+    const result = await routeOverHttp([confident], []);
+    expect(result.answeredBy).toBe("student");
+    expect(result.confidence).toBeCloseTo(Math.exp(-0.01), 10);
+  });
+
+  test("escalates a low-confidence student to the teacher", async () => {
+    const result = await routeOverHttp(
+      [unsure],
+      [{ content: '{"action": "reply", "args": {"text": "Still waiting."}}' }]
+    );
+    expect(result.reasons).toEqual(["low_confidence"]);
+    expect(result.answeredBy).toBe("teacher");
+    expect(result.model).toBe("teacher");
+    expect(result.decision).toEqual({
+      action: "reply",
+      args: { text: "Still waiting." },
+    });
+  });
+});
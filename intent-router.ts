@@ -0,0 +1,334 @@
+import {
+  buildLedgerMessage,
+  decisionTaskId,
+  parseDecision,
+  validateAgainstLedger,
+  type IntentDecision,
+  type LedgerIssue,
+  type TaskRecord,
+} from "./intent-prompt";
+import type { ChatMessage, ChatResponse, LLMProvider } from "./llm-provider";
+import {
+  checkPromptCompatibility,
+  getPrompt,
+  stampOf,
+  type PromptEntry,
+  type PromptPolicy,
+  type PromptStamp,
+} from "./prompt-registry";
+
+export type { ChatMessage } from "./llm-provider";
+
+export type ConfidenceConfig =
+  | { method: "none" }
+  | { method: "logprobs"; threshold: number }
+  | { method: "agreement"; threshold: number; samples: number };
+
+export type RouterConfig = {
+  student: LLMProvider;
+  teacher: LLMProvider;
+  latencyBudgetMs: number;
+  teacherBudgetMs?: number;
+  confidence: ConfidenceConfig;
+  prompt?: { trained: PromptStamp[]; policy: PromptPolicy };
+};
+
+export type EscalationReason =
+  | "student_error"
+  | "schema_violation"
+  | LedgerIssue["code"]
+  | "latency_budget"
+  | "low_confidence";
+
+export type RoutingDecision = {
+  decision: IntentDecision | null;
+  // null when neither model produced a usable decision; see `details`.
+  answeredBy: "student" | "teacher" | null;
+  model: string | null;
+  escalated: boolean;
+  reasons: EscalationReason[];
+  details: string[];
+  confidence: number | null;
+  prompt: PromptStamp;
+  latencyMs: {
+    student: number;
+    teacher: number | null;
+    total: number;
+  };
+};
+
+type Attempt =
+  | {
+      ok: true;
+      decision: IntentDecision;
+      confidence: number | null;
+    }
+  | {
+      ok: false;
+      reason: EscalationReason;
+      detail: string;
+      decision: IntentDecision | null;
+    };
+
+export function buildIntentMessages(
+  messages: ChatMessage[],
+  tasks: TaskRecord[],
+  prompt: PromptEntry = getPrompt()
+): ChatMessage[] {
+  return [
+    { role: "system", content: prompt.content },
+    { role: "system", content: buildLedgerMessage(tasks) },
+    ...messages,
+  ];
+}
+
+function actionProbability(completion: ChatResponse): number | null {
+  const { content, logprobs } = completion;
+  if (!logprobs || logprobs.length === 0) return null;
+
+  const match = /"action"\s*:\s*"([a-z_]+)"/.exec(content);
+  if (!match || match[1] === undefined) {
+    const mean =
+      logprobs.reduce((sum, entry) => sum + entry.logprob, 0) / logprobs.length;
+    return Math.exp(mean);
+  }
+
+  const start = match.index + match[0].length - match[1].length - 1;
+  const end = start + match[1].length;
+  let offset = 0;
+  let total = 0;
+  for (const entry of logprobs) {
+    const tokenStart = offset;
+    offset += entry.token.length;
+    if (offset > start && tokenStart < end) {
+      total += entry.logprob;
+    }
+  }
+  return Math.exp(total);
+}
+
+function decisionKey(decision: IntentDecision): string {
+  return `${decision.action}:${decisionTaskId(decision) ?? ""}`;
+}
+
+// The student answers unless it errors, fails the schema or the ledger check,
+// misses `latencyBudgetMs`, or scores below the confidence threshold (logprobs
+// on the action tokens, or agreement across several samples). The teacher then
+// gets `teacherBudgetMs` (10 s by default); if it fails too, a low-confidence
+// student decision is still returned rather than nothing.
+export function createIntentRouter(config: RouterConfig) {
+  const activePrompt = getPrompt();
+  const promptStamp = stampOf(activePrompt);
+  if (config.prompt) {
+    checkPromptCompatibility({
+      context: `Student ${config.student.model}`,
+      trained: config.prompt.trained,
+      active: promptStamp,
+      policy: config.prompt.policy,
+    });
+  }
+
+  const complete = (
+    provider: LLMProvider,
+    messages: ChatMessage[],
+    options: { logprobs?: boolean; signal?: AbortSignal } = {}
+  ): Promise<ChatResponse> =>
+    provider.complete({ messages, jsonMode: true, ...options });
+
+  function evaluate(completion: ChatResponse, tasks: TaskRecord[]): Attempt {
+    let decision: IntentDecision;
+    try {
+      decision = parseDecision(completion.content);
+    } catch (error) {
+      return {
+        ok: false,
+        reason: "schema_violation",
+        detail: `Output failed schema: ${(error as Error).message}`,
+        decision: null,
+      };
+    }
+
+    const [issue] = validateAgainstLedger(decision, tasks);
+    if (issue) {
+      return {
+        ok: false,
+        reason: issue.code,
+        detail: issue.message,
+        decision,
+      };
+    }
+
+    return { ok: true, decision, confidence: null };
+  }
+
+  async function runStudent(
+    messages: ChatMessage[],
+    tasks: TaskRecord[],
+    signal: AbortSignal
+  ): Promise<Attempt> {
+    const { confidence } = config;
+
+    if (confidence.method === "agreement") {
+      const samples = await Promise.all(
+        Array.from({ length: Math.max(1, confidence.samples) }, () =>
+          complete(config.student, messages, { signal })
+        )
+      );
+      const attempts = samples.map((sample) => evaluate(sample, tasks));
+      const first = attempts[0];
+      if (!first?.ok) return first!;
+
+      const votes = new Map<string, number>();
+      for (const attempt of attempts) {
+        if (!attempt.ok) continue;
+        const key = decisionKey(attempt.decision);
+        votes.set(key, (votes.get(key) ?? 0) + 1);
+      }
+      const agreement =
+        (votes.get(decisionKey(first.decision)) ?? 0) / attempts.length;
+      return checkThreshold(first.decision, agreement, confidence.threshold);
+    }
+
+    const completion = await complete(config.student, messages, {
+      signal,
+      logprobs: confidence.method === "logprobs",
+    });
+    const attempt = evaluate(completion, tasks);
+    if (!attempt.ok || confidence.method === "none") return attempt;
+
+    const probability = actionProbability(completion);
+    if (probability === null) {
+      return {
+        ok: false,
+        reason: "low_confidence",
+        detail: "Student returned no logprobs to score confidence",
+        decision: attempt.decision,
+      };
+    }
+    return checkThreshold(attempt.decision, probability, confidence.threshold);
+  }
+
+  function checkThreshold(
+    decision: IntentDecision,
+    score: number,
+    threshold: number
+  ): Attempt {
+    if (score < threshold) {
+      return {
+        ok: false,
+        reason: "low_confidence",
+        detail: `Confidence ${score.toFixed(3)} below threshold ${threshold}`,
+        decision,
+      };
+    }
+    return { ok: true, decision, confidence: score };
+  }
+
+  async function route(
+    messages: ChatMessage[],
+    tasks: TaskRecord[]
+  ): Promise<RoutingDecision> {
+    const prompt = buildIntentMessages(messages, tasks, activePrompt);
+    const startedAt = performance.now();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.latencyBudgetMs);
+
+    let attempt: Attempt;
+    try {
+      attempt = await runStudent(prompt, tasks, controller.signal);
+    } catch (error) {
+      attempt = controller.signal.aborted
+        ? {
+            ok: false,
+            reason: "latency_budget",
+            detail: `Student exceeded ${config.latencyBudgetMs}ms budget`,
+            decision: null,
+          }
+        : {
+            ok: false,
+            reason: "student_error",
+            detail: `Student request failed: ${(error as Error).message}`,
+            decision: null,
+          };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const studentMs = performance.now() - startedAt;
+
+    if (attempt.ok) {
+      return {
+        decision: attempt.decision,
+        answeredBy: "student",
+        model: config.student.model,
+        escalated: false,
+        reasons: [],
+        details: [],
+        confidence: attempt.confidence,
+        prompt: promptStamp,
+        latencyMs: { student: studentMs, teacher: null, total: studentMs },
+      };
+    }
+
+    const reasons: EscalationReason[] = [attempt.reason];
+    const details = [attempt.detail];
+    const teacherStartedAt = performance.now();
+    const teacherBudgetMs = config.teacherBudgetMs ?? 10_000;
+    let decision: IntentDecision | null = null;
+    let answeredBy: RoutingDecision["answeredBy"] = null;
+
+    try {
+      const teacherAttempt = evaluate(
+        await complete(config.teacher, prompt, {
+          signal: AbortSignal.timeout(teacherBudgetMs),
+        }),
+        tasks
+      );
+      if (teacherAttempt.ok) {
+        decision = teacherAttempt.decision;
+        answeredBy = "teacher";
+      } else {
+        details.push(`Teacher rejected: ${teacherAttempt.detail}`);
+      }
+    } catch (error) {
+      details.push(
+        (error as Error).name === "TimeoutError"
+          ? `Teacher exceeded ${teacherBudgetMs}ms budget`
+          : `Teacher request failed: ${(error as Error).message}`
+      );
+    }
+
+    // A low-confidence student decision still passed the schema and the
+    // ledger, so it beats returning nothing.
+    if (!decision && attempt.reason === "low_confidence" && attempt.decision) {
+      decision = attempt.decision;
+      answeredBy = "student";
+    }
+
+    const teacherMs = performance.now() - teacherStartedAt;
+
+    return {
+      decision,
+      answeredBy,
+      model:
+        answeredBy === null
+          ? null
+          : answeredBy === "teacher"
+            ? config.teacher.model
+            : config.student.model,
+      escalated: true,
+      reasons,
+      details,
+      confidence: null,
+      prompt: promptStamp,
+      latencyMs: {
+        student: studentMs,
+        teacher: teacherMs,
+        total: studentMs + teacherMs,
+      },
+    };
+  }
+
+  return { route };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { createIntentService, createRequestCoalescer } from "./intent-service";
+import { createMockProvider, type LLMProvider } from "./llm-provider";
+
+function countingProvider(delayMs: number) {
+  const provider = createMockProvider({
+    fixtures: [{ content: '{"action": "noop"}', delayMs }],
+    loop: true,
+  });
+  let calls = 0;
+  const counted: LLMProvider = {
+    ...provider,
+    complete: (request) => {
+      calls += 1;
+      return provider.complete(request);
+    },
+  };
+  return { provider: counted, calls: () => calls };
+}
+
+const ask = (content: string) => ({
+  messages: [{ role: "user" as const, content }],
+});
+
+describe("createRequestCoalescer", () => {
+  test("shares one call between identical in-flight requests", async () => {
+    const { provider, calls } = countingProvider(10);
+    const coalescer = createRequestCoalescer(provider);
+    await Promise.all([
+      coalescer.complete(ask("hi")),
+      coalescer.complete(ask("hi")),
+      coalescer.complete(ask("bye")),
+    ]);
+    expect(calls()).toBe(2);
+  });
+
+  test("keeps the shared call alive while one request still waits", async () => {
+    const { provider } = countingProvider(30);
+    const coalescer = createRequestCoalescer(provider);
+    const controller = new AbortController();
+    const abandoned = coalescer.complete(ask("hi"), controller.signal);
+    const kept = coalescer.complete(ask("hi"));
+    controller.abort();
+
+    await expect(abandoned).rejects.toThrow();
+    expect((await kept).content).toBe('{"action": "noop"}');
+  });
+});
+
+describe("createIntentService", () => {
+  test("returns a validated decision and counts it", async () => {
+    const { provider } = countingProvider(0);
+    const service = createIntentService({ provider });
+    const response = await service.fetch(
+      new Request("http://localhost/v1/intent", {
+        method: "POST",
+        body: JSON.stringify(ask("any news?")),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { decision: unknown };
+    expect(body.decision).toEqual({ action: "noop" });
+    expect(service.metrics()).toContain(
+      'intent_decisions_total{action="noop"} 1'
+    );
+  });
+
+  test("rejects a malformed request", async () => {
+    const { provider } = countingProvider(0);
+    const response = await createIntentService({ provider }).fetch(
+      new Request("http://localhost/v1/intent", {
+        method: "POST",
+        body: JSON.stringify({ messages: [] }),
+      })
+    );
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,374 @@
+import { z } from "zod";
+import { ACTION_NAMES } from "./action-registry";
+import {
+  parseDecision,
+  validateAgainstLedger,
+  type IntentDecision,
+} from "./intent-prompt";
+import { buildIntentMessages } from "./intent-router";
+import {
+  createProvider,
+  providerConfigFromEnv,
+  type ChatRequest,
+  type ChatResponse,
+  type LLMProvider,
+} from "./llm-provider";
+import { createMetricsRegistry } from "./metrics";
+import {
+  checkPromptCompatibility,
+  getPrompt,
+  parsePromptPolicy,
+  parsePromptStamp,
+  stampOf,
+  type PromptEntry,
+  type PromptStamp,
+} from "./prompt-registry";
+
+export type IntentServiceOptions = {
+  provider: LLMProvider;
+  prompt?: PromptEntry;
+  timeoutMs?: number;
+};
+
+export type IntentServiceResponse = {
+  decision: IntentDecision;
+  model: string;
+  prompt: PromptStamp;
+  latencyMs: number;
+  metadata?: Record<string, unknown>;
+};
+
+type Outcome =
+  | "ok"
+  | "invalid_request"
+  | "schema_failure"
+  | "ledger_violation"
+  | "timeout"
+  | "backend_error";
+
+const STATUS: Record<Outcome, number> = {
+  ok: 200,
+  invalid_request: 400,
+  schema_failure: 502,
+  ledger_violation: 502,
+  timeout: 504,
+  backend_error: 502,
+};
+
+const requestSchema = z.strictObject({
+  messages: z
+    .array(
+      z.strictObject({
+        role: z.enum(["system", "user", "assistant"]),
+        content: z.string(),
+      })
+    )
+    .min(1),
+  tasks: z
+    .array(
+      z.strictObject({
+        id: z.string().min(1),
+        summary: z.string(),
+        last_update: z.string(),
+      })
+    )
+    .default([]),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+type Waiter = {
+  resolve: (response: ChatResponse) => void;
+  reject: (error: unknown) => void;
+};
+
+type PendingCall = {
+  key: string;
+  waiters: Set<Waiter>;
+  controller: AbortController;
+};
+
+// Identical prompts that arrive while a backend call for them is in flight
+// share that call instead of starting another; the call is aborted once every
+// request waiting on it has given up. Distinct prompts each get their own call.
+export function createRequestCoalescer(
+  provider: LLMProvider,
+  options: {
+    onCall?: () => void;
+    onCoalesced?: () => void;
+  } = {}
+) {
+  const open = new Map<string, PendingCall>();
+
+  function start(key: string, request: ChatRequest): PendingCall {
+    const call: PendingCall = {
+      key,
+      waiters: new Set(),
+      controller: new AbortController(),
+    };
+    open.set(key, call);
+    options.onCall?.();
+    provider
+      .complete({ ...request, signal: call.controller.signal })
+      .then(
+        (response) =>
+          call.waiters.forEach((waiter) => waiter.resolve(response)),
+        (error) => call.waiters.forEach((waiter) => waiter.reject(error))
+      )
+      .finally(() => {
+        if (open.get(key) === call) open.delete(key);
+      });
+    return call;
+  }
+
+  function complete(
+    request: ChatRequest,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    const key = JSON.stringify([request.messages, request.jsonMode ?? false]);
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const joined = open.get(key);
+    if (joined) options.onCoalesced?.();
+    const call = joined ?? start(key, request);
+
+    return new Promise<ChatResponse>((resolve, reject) => {
+      const onAbort = () => {
+        call.waiters.delete(waiter);
+        reject(signal!.reason);
+        if (call.waiters.size > 0) return;
+        call.controller.abort(signal!.reason);
+        if (open.get(key) === call) open.delete(key);
+      };
+      const waiter: Waiter = {
+        resolve: (response) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      call.waiters.add(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  return { complete };
+}
+
+class RequestFailure extends Error {
+  constructor(
+    readonly outcome: Outcome,
+    message: string
+  ) {
+    super(message);
+    this.name = "RequestFailure";
+  }
+}
+
+// Metrics cover requests by outcome, decisions by action, schema and ledger
+// failures, end-to-end and backend latency, and how many requests were
+// coalesced into a shared backend call.
+export function createIntentService(options: IntentServiceOptions) {
+  const prompt = options.prompt ?? getPrompt();
+  const promptStamp = stampOf(prompt);
+  const timeoutMs = options.timeoutMs ?? 2000;
+
+  const metrics = createMetricsRegistry();
+  const requests = metrics.counter(
+    "intent_requests_total",
+    "Intent requests by outcome."
+  );
+  const actions = metrics.counter(
+    "intent_decisions_total",
+    "Validated intent decisions by action."
+  );
+  const schemaFailures = metrics.counter(
+    "intent_schema_failures_total",
+    "Backend outputs rejected by the decision schema or the task ledger."
+  );
+  const latency = metrics.histogram(
+    "intent_request_duration_seconds",
+    "End-to-end latency of intent requests."
+  );
+  const backendLatency = metrics.histogram(
+    "intent_backend_duration_seconds",
+    "Latency of backend model calls."
+  );
+  const backendCalls = metrics.counter(
+    "intent_backend_calls_total",
+    "Model calls made after coalescing identical requests."
+  );
+  const coalesced = metrics.counter(
+    "intent_coalesced_requests_total",
+    "Requests that joined an identical in-flight model call."
+  );
+  for (const action of ACTION_NAMES) actions.inc({ action }, 0);
+
+  const coalescer = createRequestCoalescer(options.provider, {
+    onCall: () => backendCalls.inc(),
+    onCoalesced: () => coalesced.inc(),
+  });
+
+  async function detect(body: unknown): Promise<IntentServiceResponse> {
+    const parsed = requestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new RequestFailure(
+        "invalid_request",
+        z.prettifyError(parsed.error)
+      );
+    }
+    const { messages, tasks, metadata } = parsed.data;
+
+    const startedAt = performance.now();
+    let completion: ChatResponse;
+    try {
+      completion = await coalescer.complete(
+        {
+          messages: buildIntentMessages(messages, tasks, prompt),
+          jsonMode: true,
+        },
+        AbortSignal.timeout(timeoutMs)
+      );
+    } catch (error) {
+      if ((error as Error).name === "TimeoutError") {
+        throw new RequestFailure(
+          "timeout",
+          `Backend did not answer within ${timeoutMs}ms`
+        );
+      }
+      throw new RequestFailure("backend_error", (error as Error).message);
+    }
+    backendLatency.observe((performance.now() - startedAt) / 1000);
+
+    let decision: IntentDecision;
+    try {
+      decision = parseDecision(completion.content);
+    } catch (error) {
+      schemaFailures.inc({ reason: "schema" });
+      throw new RequestFailure(
+        "schema_failure",
+        `Output failed schema: ${(error as Error).message}`
+      );
+    }
+    const [issue] = validateAgainstLedger(decision, tasks);
+    if (issue) {
+      schemaFailures.inc({ reason: issue.code });
+      throw new RequestFailure("ledger_violation", issue.message);
+    }
+
+    actions.inc({ action: decision.action });
+    return {
+      decision,
+      model: completion.model,
+      prompt: promptStamp,
+      latencyMs: performance.now() - startedAt,
+      ...(metadata ? { metadata } : {}),
+    };
+  }
+
+  async function handleIntent(req: Request): Promise<Response> {
+    const startedAt = performance.now();
+    let outcome: Outcome = "ok";
+    try {
+      const body = await req.json().catch(() => {
+        throw new RequestFailure("invalid_request", "Body must be JSON");
+      });
+      return Response.json(await detect(body));
+    } catch (error) {
+      outcome =
+        error instanceof RequestFailure ? error.outcome : "backend_error";
+      return Response.json(
+        { error: outcome, message: (error as Error).message },
+        { status: STATUS[outcome] }
+      );
+    } finally {
+      requests.inc({ outcome });
+      latency.observe((performance.now() - startedAt) / 1000, { outcome });
+    }
+  }
+
+  async function fetch(req: Request): Promise<Response> {
+    const { pathname } = new URL(req.url);
+    if (pathname === "/healthz" && req.method === "GET") {
+      return Response.json({
+        status: "ok",
+        model: options.provider.model,
+        prompt: promptStamp,
+      });
+    }
+    if (pathname === "/metrics" && req.method === "GET") {
+      return new Response(metrics.render(), {
+        headers: { "Content-Type": "text/plain; version=0.0.4" },
+      });
+    }
+    if (pathname === "/v1/intent") {
+      if (req.method !== "POST") {
+        return new Response("Method not allowed", { status: 405 });
+      }
+      return handleIntent(req);
+    }
+    return new Response("Not found", { status: 404 });
+  }
+
+  return { fetch, detect, metrics: metrics.render };
+}
+
+export function startIntentService(
+  options: IntentServiceOptions & { port?: number }
+) {
+  const service = createIntentService(options);
+  const server = Bun.serve({ port: options.port ?? 0, fetch: service.fetch });
+  return {
+    url: `http://localhost:${server.port}`,
+    stop: () => server.stop(true),
+  };
+}
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+// Serves the local mock fixtures unless `SERVICE_PROVIDER` and `SERVICE_MODEL`
+// point at a real backend.
+async function main() {
+  const config = providerConfigFromEnv("SERVICE", {
+    provider: "mock",
+    model: "mock-intent",
+  });
+  if (config.provider === "mock") {
+    config.fixtures ??= "fixtures/mock-intent.json";
+  }
+  const provider = await createProvider(config);
+
+  const prompt = getPrompt();
+  // `PROMPT_POLICY=refuse` makes a mismatch with the trained stamp an error.
+  const trained = readArg("trained-prompt") ?? process.env.SERVICE_PROMPT;
+  if (trained) {
+    checkPromptCompatibility({
+      context: `Service model ${provider.model}`,
+      trained: [parsePromptStamp(trained)],
+      active: stampOf(prompt),
+      policy: parsePromptPolicy(
+        readArg("prompt-policy") ?? process.env.PROMPT_POLICY
+      ),
+    });
+  }
+
+  const service = startIntentService({
+    provider,
+    prompt,
+    port: Number(readArg("port") ?? process.env.PORT ?? "8787"),
+    timeoutMs: Number(readArg("timeout") ?? "2000"),
+  });
+  console.log(
+    `Intent service listening on ${service.url} (${provider.name}/${provider.model})`
+  );
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createMockProvider,
+  isRetryable,
+  loadMockFixtures,
+  ProviderError,
+} from "./llm-provider";
+
+const request = { messages: [{ role: "user" as const, content: "hi" }] };
+
+describe("createMockProvider", () => {
+  test("matches fixtures by pattern before playing them in order", async () => {
+    const provider = createMockProvider({
+      fixtures: [
+        { content: "first" },
+        { match: "weather", content: "matched" },
+        { content: "second" },
+      ],
+    });
+    const contents = [];
+    for (const content of ["hi", "weather?", "hi"]) {
+      contents.push(
+        (await provider.complete({ messages: [{ role: "user", content }] }))
+          .content
+      );
+    }
+    expect(contents).toEqual(["first", "matched", "second"]);
+  });
+
+  test("throws scripted errors as provider errors", async () => {
+    const provider = createMockProvider({
+      fixtures: [{ error: { status: 429, message: "slow down" } }],
+    });
+    const error = await provider.complete(request).catch((error) => error);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(isRetryable(error)).toBe(true);
+  });
+
+  test("rejects a delayed response once the request is aborted", async () => {
+    const provider = createMockProvider({
+      fixtures: [{ content: "late", delayMs: 1000 }],
+    });
+    const error = await provider
+      .complete({ ...request, signal: AbortSignal.timeout(10) })
+      .catch((error) => error);
+    expect((error as Error).name).toBe("TimeoutError");
+  });
+
+  test("removes its abort listener once the delay elapses", async () => {
+    const { signal } = new AbortController();
+    let listeners = 0;
+    const add = signal.addEventListener.bind(signal);
+    const remove = signal.removeEventListener.bind(signal);
+    signal.addEventListener = ((...args: Parameters<typeof add>) => {
+      listeners += 1;
+      add(...args);
+    }) as typeof add;
+    signal.removeEventListener = ((...args: Parameters<typeof remove>) => {
+      listeners -= 1;
+      remove(...args);
+    }) as typeof remove;
+
+    const provider = createMockProvider({
+      fixtures: [{ content: "soon", delayMs: 5 }],
+    });
+    await provider.complete({ ...request, signal });
+    expect(listeners).toBe(0);
+  });
+});
+
+describe("isRetryable", () => {
+  test("retries only provider errors that allow it", () => {
+    expect(isRetryable(new ProviderError("x", "mock", 500, true))).toBe(true);
+    expect(isRetryable(new ProviderError("x", "mock", 400, false))).toBe(false);
+    expect(isRetryable(new TypeError("undefined is not a function"))).toBe(
+      false
+    );
+  });
+});
+
+describe("loadMockFixtures", () => {
+  test("reads the committed fixture files", async () => {
+    const fixtures = await loadMockFixtures("fixtures/mock-intent.json");
+    expect(fixtures.length).toBeGreaterThan(0);
+    expect(fixtures.every((fixture) => fixture.content)).toBe(true);
+  });
+});
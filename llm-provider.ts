@@ -0,0 +1,415 @@
+import { readFile } from "node:fs/promises";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  jsonMode?: boolean;
+  reasoningEffort?: ReasoningEffort;
+  temperature?: number;
+  logprobs?: boolean;
+  signal?: AbortSignal;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  reasoningTokens: number;
+};
+
+export type TokenLogprob = { token: string; logprob: number };
+
+export type ChatResponse = {
+  content: string;
+  model: string;
+  usage: TokenUsage | null;
+  logprobs: TokenLogprob[] | null;
+  latencyMs: number;
+};
+
+export type LLMProvider = {
+  name: string;
+  model: string;
+  complete(request: ChatRequest): Promise<ChatResponse>;
+  stream?(request: ChatRequest): AsyncIterable<string>;
+};
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly status: number | null,
+    readonly retryable: boolean,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export function isRetryable(error: unknown): boolean {
+  return error instanceof ProviderError && error.retryable;
+}
+
+// 5xx responses and network failures are retryable as well.
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function parseUsage(usage: any): TokenUsage | null {
+  if (!usage || typeof usage !== "object") return null;
+  const promptTokens = Number(usage.prompt_tokens ?? 0);
+  const completionTokens = Number(usage.completion_tokens ?? 0);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(usage.total_tokens ?? promptTokens + completionTokens),
+    reasoningTokens: Number(
+      usage.completion_tokens_details?.reasoning_tokens ?? 0
+    ),
+  };
+}
+
+export function createOpenAICompatibleProvider(options: {
+  name?: string;
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  fetch?: typeof fetch;
+}): LLMProvider {
+  const name = options.name ?? "openai-compatible";
+  const doFetch = options.fetch ?? fetch;
+  const endpoint = `${options.baseURL.replace(/\/+$/, "")}/chat/completions`;
+
+  async function send(
+    request: ChatRequest,
+    stream: boolean
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await doFetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey
+            ? { Authorization: `Bearer ${options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages: request.messages,
+          ...(request.jsonMode
+            ? { response_format: { type: "json_object" } }
+            : {}),
+          ...(request.reasoningEffort
+            ? { reasoning_effort: request.reasoningEffort }
+            : {}),
+          ...(request.temperature !== undefined
+            ? { temperature: request.temperature }
+            : {}),
+          ...(request.logprobs ? { logprobs: true } : {}),
+          ...(stream ? { stream: true } : {}),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new ProviderError(
+        `${name} request failed: ${(error as Error).message}`,
+        name,
+        null,
+        true
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(
+        `${name} request failed: ${response.status} ${response.statusText} — ${errorText}`,
+        name,
+        response.status,
+        RETRYABLE_STATUS.has(response.status) || response.status >= 500,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+    return response;
+  }
+
+  async function complete(request: ChatRequest): Promise<ChatResponse> {
+    const startedAt = performance.now();
+    const response = await send(request, false);
+    const payload: any = await response.json();
+    const choice = payload?.choices?.[0];
+    const content = choice?.message?.content;
+    if (!content) {
+      throw new ProviderError(
+        `${name} response missing content`,
+        name,
+        response.status,
+        true
+      );
+    }
+
+    return {
+      content,
+      model: String(payload.model ?? options.model),
+      usage: parseUsage(payload.usage),
+      logprobs: Array.isArray(choice.logprobs?.content)
+        ? choice.logprobs.content.map((entry: any) => ({
+            token: String(entry.token),
+            logprob: Number(entry.logprob),
+          }))
+        : null,
+      latencyMs: performance.now() - startedAt,
+    };
+  }
+
+  async function* stream(request: ChatRequest): AsyncIterable<string> {
+    const response = await send(request, true);
+    if (!response.body) {
+      throw new ProviderError(`${name} stream has no body`, name, null, true);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice("data:".length).trim();
+        if (data === "[DONE]") return;
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (delta) yield String(delta);
+      }
+    }
+  }
+
+  return { name, model: options.model, complete, stream };
+}
+
+export function createOpenAIProvider(options: {
+  model: string;
+  apiKey?: string;
+}): LLMProvider {
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+  if (!apiKey) throw new Error("Missing OPENAI_API_KEY environment variable");
+  return createOpenAICompatibleProvider({
+    name: "openai",
+    baseURL: "https://api.openai.com/v1",
+    model: options.model,
+    apiKey,
+  });
+}
+
+export function createTogetherProvider(options: {
+  model: string;
+  apiKey?: string;
+}): LLMProvider {
+  const apiKey = options.apiKey ?? process.env.TOGETHER_API_KEY;
+  if (!apiKey) throw new Error("Missing TOGETHER_API_KEY environment variable");
+  return createOpenAICompatibleProvider({
+    name: "together",
+    baseURL: "https://api.together.xyz/v1",
+    model: options.model,
+    apiKey,
+  });
+}
+
+// A fixture scripts one response: its content, an error with a status and
+// `Retry-After`, a delay, streamed chunks, token usage or logprobs. Fixtures
+// with a `match` regex answer the requests whose last message it matches; the
+// rest are replayed in order.
+export type MockFixture = {
+  match?: string;
+  content?: string;
+  error?: { status: number; message: string; retryAfterMs?: number };
+  delayMs?: number;
+  chunkSize?: number;
+  chunkDelayMs?: number;
+  usage?: Partial<TokenUsage>;
+  logprobs?: TokenLogprob[];
+};
+
+function sleep(ms: number | undefined, signal?: AbortSignal): Promise<void> {
+  if (!ms) return Promise.resolve();
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function throwFixtureError(fixture: MockFixture): void {
+  if (!fixture.error) return;
+  const { status, message, retryAfterMs } = fixture.error;
+  throw new ProviderError(
+    `mock request failed: ${status} — ${message}`,
+    "mock",
+    status,
+    RETRYABLE_STATUS.has(status) || status >= 500,
+    retryAfterMs ?? null
+  );
+}
+
+export function createMockProvider(options: {
+  fixtures: MockFixture[];
+  model?: string;
+  loop?: boolean;
+}): LLMProvider {
+  const model = options.model ?? "mock";
+  const sequential = options.fixtures.filter((fixture) => !fixture.match);
+  const matchers = options.fixtures
+    .filter((fixture) => fixture.match)
+    .map((fixture) => ({ fixture, pattern: new RegExp(fixture.match!) }));
+  let cursor = 0;
+
+  const pick = (request: ChatRequest): MockFixture => {
+    const last = request.messages[request.messages.length - 1]?.content ?? "";
+    const matched = matchers.find(({ pattern }) => pattern.test(last));
+    if (matched) return matched.fixture;
+
+    if (cursor >= sequential.length) {
+      if (!options.loop || sequential.length === 0) {
+        throw new ProviderError(
+          "mock provider has no fixture left for this request",
+          "mock",
+          null,
+          false
+        );
+      }
+      cursor = 0;
+    }
+    return sequential[cursor++]!;
+  };
+
+  async function complete(request: ChatRequest): Promise<ChatResponse> {
+    const startedAt = performance.now();
+    const fixture = pick(request);
+
+    await sleep(fixture.delayMs, request.signal);
+    throwFixtureError(fixture);
+
+    const content = fixture.content ?? "";
+    const promptTokens = fixture.usage?.promptTokens ?? 0;
+    const completionTokens = fixture.usage?.completionTokens ?? 0;
+
+    return {
+      content,
+      model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens:
+          fixture.usage?.totalTokens ?? promptTokens + completionTokens,
+        reasoningTokens: fixture.usage?.reasoningTokens ?? 0,
+      },
+      logprobs: fixture.logprobs ?? null,
+      latencyMs: performance.now() - startedAt,
+    };
+  }
+
+  async function* stream(request: ChatRequest): AsyncIterable<string> {
+    const fixture = pick(request);
+    await sleep(fixture.delayMs, request.signal);
+    throwFixtureError(fixture);
+
+    const content = fixture.content ?? "";
+    const size = Math.max(1, fixture.chunkSize ?? 8);
+    for (let i = 0; i < content.length; i += size) {
+      await sleep(fixture.chunkDelayMs, request.signal);
+      yield content.slice(i, i + size);
+    }
+  }
+
+  return { name: "mock", model, complete, stream };
+}
+
+export async function loadMockFixtures(path: string): Promise<MockFixture[]> {
+  const text = await readFile(path, "utf8");
+  if (path.endsWith(".jsonl")) {
+    return text
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as MockFixture);
+  }
+  return JSON.parse(text) as MockFixture[];
+}
+
+export type ProviderConfig = {
+  provider: "openai" | "together" | "openai-compatible" | "mock";
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  fixtures?: string;
+};
+
+export async function createProvider(
+  config: ProviderConfig
+): Promise<LLMProvider> {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config);
+    case "together":
+      return createTogetherProvider(config);
+    case "openai-compatible":
+      if (!config.baseURL) {
+        throw new Error("openai-compatible provider requires a base URL");
+      }
+      return createOpenAICompatibleProvider({
+        baseURL: config.baseURL,
+        model: config.model,
+        apiKey: config.apiKey,
+      });
+    case "mock":
+      if (!config.fixtures) {
+        throw new Error("mock provider requires a fixtures file");
+      }
+      return createMockProvider({
+        model: config.model,
+        fixtures: await loadMockFixtures(config.fixtures),
+        loop: true,
+      });
+    default:
+      throw new Error(`Unknown provider '${config.provider}'`);
+  }
+}
+
+// Reads `<PREFIX>_PROVIDER`, `_MODEL`, `_BASE_URL`, `_API_KEY` and
+// `_FIXTURES`; the entry points use `GENERATION`, `EVAL`, `SERVICE`, `STREAM`
+// and `STUDENT`.
+export function providerConfigFromEnv(
+  prefix: string,
+  defaults: Pick<ProviderConfig, "provider" | "model">
+): ProviderConfig {
+  const env = (name: string) => process.env[`${prefix}_${name}`];
+  return {
+    provider: (env("PROVIDER") ??
+      defaults.provider) as ProviderConfig["provider"],
+    model: env("MODEL") ?? defaults.model,
+    baseURL: env("BASE_URL"),
+    apiKey: env("API_KEY"),
+    fixtures: env("FIXTURES"),
+  };
+}
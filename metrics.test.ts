@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { createMetricsRegistry } from "./metrics";
+
+describe("createMetricsRegistry", () => {
+  test("renders counters with escaped label values", () => {
+    const metrics = createMetricsRegistry();
+    const errors = metrics.counter("errors_total", "Errors by message.");
+    errors.inc({ message: 'bad "input"\nat C:\\tmp' });
+    errors.inc({ message: 'bad "input"\nat C:\\tmp' }, 2);
+
+    expect(metrics.render().split("\n")).toContain(
+      'errors_total{message="bad \\"input\\"\\nat C:\\\\tmp"} 3'
+    );
+  });
+
+  test("renders cumulative histogram buckets", () => {
+    const metrics = createMetricsRegistry();
+    const latency = metrics.histogram("latency_seconds", "Latency.", [0.1, 1]);
+    latency.observe(0.05);
+    latency.observe(0.5);
+
+    expect(metrics.render()).toBe(
+      [
+        "# HELP latency_seconds Latency.",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 2',
+        "latency_seconds_sum 0.55",
+        "latency_seconds_count 2",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,101 @@
+type Labels = Record<string, string>;
+
+type Series = { labels: Labels; value: number };
+
+type HistogramSeries = {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(",");
+}
+
+// Prometheus text format: backslash, double quote and newline become \\, \"
+// and \n inside label values.
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function renderLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+    .join(",")}}`;
+}
+
+export function createMetricsRegistry() {
+  const renderers: Array<() => string[]> = [];
+
+  function counter(name: string, help: string) {
+    const series = new Map<string, Series>();
+    renderers.push(() => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...series.values()].map(
+        ({ labels, value }) => `${name}${renderLabels(labels)} ${value}`
+      ),
+    ]);
+    return {
+      inc(labels: Labels = {}, amount = 1) {
+        const key = labelKey(labels);
+        const entry = series.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        series.set(key, entry);
+      },
+    };
+  }
+
+  function histogram(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+    const series = new Map<string, HistogramSeries>();
+    renderers.push(() => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (bucket, i) =>
+            `${name}_bucket${renderLabels({ ...labels, le: String(bucket) })} ${
+              counts[i]
+            }`
+        ),
+        `${name}_bucket${renderLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${renderLabels(labels)} ${sum}`,
+        `${name}_count${renderLabels(labels)} ${count}`,
+      ]),
+    ]);
+    return {
+      observe(value: number, labels: Labels = {}) {
+        const key = labelKey(labels);
+        const entry = series.get(key) ?? {
+          labels,
+          counts: buckets.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+        buckets.forEach((bucket, i) => {
+          if (value <= bucket) entry.counts[i]! += 1;
+        });
+        entry.sum += value;
+        entry.count += 1;
+        series.set(key, entry);
+      },
+    };
+  }
+
+  function render(): string {
+    return renderers.flatMap((renderer) => renderer()).join("\n") + "\n";
+  }
+
+  return { counter, histogram, render };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { migrateLine } from "./migrate-dataset";
+
+const callRow = {
+  final: "reply(Done.)",
+  turnLabels: [
+    {
+      messageIndex: 2,
+      tasks: [],
+      reasoning: "",
+      final: "start_task(Book a table)",
+    },
+  ],
+  messages: [
+    { role: "user", content: "hi", thinking: null },
+    { role: "assistant", content: "reply(Done.)", thinking: null },
+  ],
+};
+
+describe("migrateLine", () => {
+  test("converts the final, the last assistant turn and every turn label", () => {
+    const row = JSON.parse(migrateLine(JSON.stringify(callRow), "json"));
+    expect(JSON.parse(row.final)).toEqual({
+      action: "reply",
+      args: { text: "Done." },
+    });
+    expect(row.messages.at(-1).content).toBe(row.final);
+    expect(JSON.parse(row.turnLabels[0].final)).toEqual({
+      action: "start_task",
+      args: { explanation: "Book a table" },
+    });
+  });
+
+  test("round-trips back to call strings", () => {
+    const json = migrateLine(JSON.stringify(callRow), "json");
+    expect(JSON.parse(migrateLine(json, "call"))).toEqual(callRow);
+  });
+});
@@ -0,0 +1,84 @@
+import { readFile, writeFile } from "node:fs/promises";
+import {
+  convertFinal,
+  parseActionFormat,
+  type ActionFormat,
+} from "./action-format";
+
+// Converts the row's final, its per-turn labels and the closing assistant
+// message, so every copy of a decision ends up in the same format.
+export function migrateLine(line: string, format: ActionFormat): string {
+  const row = JSON.parse(line);
+
+  if (typeof row.final === "string") {
+    row.final = convertFinal(row.final, format);
+  }
+
+  if (Array.isArray(row.turnLabels)) {
+    for (const label of row.turnLabels) {
+      if (typeof label?.final === "string") {
+        label.final = convertFinal(label.final, format);
+      }
+    }
+  }
+
+  if (Array.isArray(row.messages)) {
+    const last = row.messages[row.messages.length - 1];
+    if (last?.role === "assistant" && typeof last.content === "string") {
+      last.content = convertFinal(last.content, format);
+    }
+  }
+
+  return JSON.stringify(row);
+}
+
+async function migrateFile(
+  input: string,
+  output: string,
+  format: ActionFormat
+): Promise<number> {
+  const lines = (await readFile(input, "utf8")).split("\n");
+  const migrated: string[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      migrated.push(migrateLine(line, format));
+    } catch (error) {
+      throw new Error(`${input}:${index + 1} — ${(error as Error).message}`);
+    }
+  });
+
+  await writeFile(output, migrated.join("\n") + "\n");
+  return migrated.length;
+}
+
+// Files are rewritten in place unless `--out=` names a single output file.
+async function main() {
+  const format = parseActionFormat(
+    process.argv.find((arg) => arg.startsWith("--format="))?.split("=")[1]
+  );
+  const outArg = process.argv
+    .find((arg) => arg.startsWith("--out="))
+    ?.slice("--out=".length);
+  const inputs = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+
+  if (inputs.length === 0) {
+    throw new Error(
+      "Usage: bun migrate-dataset.ts --format=call|json <file.jsonl>... [--out=path]"
+    );
+  }
+  if (outArg && inputs.length > 1) {
+    throw new Error("--out can only be used with a single input file");
+  }
+
+  for (const input of inputs) {
+    const output = outArg ?? input;
+    const count = await migrateFile(input, output, format);
+    console.log(`Rewrote ${count} rows from ${input} to ${format} format`);
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
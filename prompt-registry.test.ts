@@ -0,0 +1,56 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import {
+  checkPromptCompatibility,
+  CURRENT_PROMPT_VERSION,
+  formatStamp,
+  getPrompt,
+  parsePromptStamp,
+  stampForContent,
+  stampOf,
+  UNKNOWN_PROMPT_VERSION,
+} from "./prompt-registry";
+
+const active = stampOf(getPrompt());
+const stale = { version: "intent-v0", hash: "000000000000" };
+
+describe("prompt stamps", () => {
+  test("identify the current prompt by version and content hash", () => {
+    expect(active.version).toBe(CURRENT_PROMPT_VERSION);
+    expect(stampForContent(`\n${getPrompt().content}\n`)).toEqual(active);
+    expect(stampForContent("Some other prompt").version).toBe(
+      UNKNOWN_PROMPT_VERSION
+    );
+  });
+
+  test("parse from version@hash or a bare known version", () => {
+    expect(parsePromptStamp(formatStamp(stale))).toEqual(stale);
+    expect(parsePromptStamp(CURRENT_PROMPT_VERSION)).toEqual(active);
+    expect(() => parsePromptStamp("intent-v0")).toThrow(
+      "Unknown prompt version"
+    );
+  });
+});
+
+describe("checkPromptCompatibility", () => {
+  test("warns or refuses when the trained prompt differs", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    const options = { context: "Student", trained: [stale], active };
+
+    expect(checkPromptCompatibility({ ...options, policy: "warn" })).toBe(
+      false
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+
+    expect(() =>
+      checkPromptCompatibility({ ...options, policy: "refuse" })
+    ).toThrow(`was trained on ${formatStamp(stale)}`);
+    expect(
+      checkPromptCompatibility({
+        ...options,
+        trained: [active],
+        policy: "refuse",
+      })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { createHash } from "node:crypto";
+import { intentPrompt } from "./intent-prompt";
+
+export type PromptStamp = {
+  version: string;
+  hash: string;
+};
+
+export type PromptEntry = PromptStamp & { content: string };
+
+export type PromptPolicy = "warn" | "refuse";
+
+export const UNKNOWN_PROMPT_VERSION = "unknown";
+
+// Bump the version whenever the rendered prompt changes; the hash catches
+// edits that forgot to.
+export const CURRENT_PROMPT_VERSION = "intent-v1";
+
+// Changing the prompt means adding its new version here; older versions stay
+// so `stampForContent` can still name the prompt of existing rows.
+const PROMPT_SOURCES: Record<string, string> = {
+  [CURRENT_PROMPT_VERSION]: intentPrompt,
+};
+
+export function promptHash(content: string): string {
+  return createHash("sha256").update(content.trim()).digest("hex").slice(0, 12);
+}
+
+export function getPrompt(version = CURRENT_PROMPT_VERSION): PromptEntry {
+  const source = PROMPT_SOURCES[version];
+  if (source === undefined) {
+    throw new Error(
+      `Unknown prompt version '${version}'. Known versions: ${Object.keys(
+        PROMPT_SOURCES
+      ).join(", ")}`
+    );
+  }
+  const content = source.trim();
+  return { version, hash: promptHash(content), content };
+}
+
+export function stampOf(entry: PromptEntry): PromptStamp {
+  return { version: entry.version, hash: entry.hash };
+}
+
+export function stampForContent(content: string): PromptStamp {
+  const hash = promptHash(content);
+  const version = Object.keys(PROMPT_SOURCES).find(
+    (candidate) => getPrompt(candidate).hash === hash
+  );
+  return { version: version ?? UNKNOWN_PROMPT_VERSION, hash };
+}
+
+export function formatStamp(stamp: PromptStamp): string {
+  return `${stamp.version}@${stamp.hash}`;
+}
+
+export function parsePromptStamp(value: string): PromptStamp {
+  const [version = "", hash] = value.split("@");
+  if (hash) return { version, hash };
+  return stampOf(getPrompt(version));
+}
+
+export function parsePromptPolicy(value: string | undefined): PromptPolicy {
+  const policy = value ?? "warn";
+  if (policy !== "warn" && policy !== "refuse") {
+    throw new Error(`Unknown prompt policy '${value}'. Use warn or refuse.`);
+  }
+  return policy;
+}
+
+export function samePrompt(a: PromptStamp, b: PromptStamp): boolean {
+  return a.hash === b.hash;
+}
+
+export function uniqueStamps(stamps: PromptStamp[]): PromptStamp[] {
+  const byHash = new Map(stamps.map((stamp) => [stamp.hash, stamp]));
+  return [...byHash.values()];
+}
+
+export function checkPromptCompatibility(options: {
+  context: string;
+  trained: PromptStamp[];
+  active: PromptStamp;
+  policy: PromptPolicy;
+}): boolean {
+  const { context, trained, active, policy } = options;
+  const mismatched = trained.filter((stamp) => !samePrompt(stamp, active));
+  if (mismatched.length === 0) return true;
+
+  const message = `${context} uses prompt ${formatStamp(
+    active
+  )} but was trained on ${mismatched.map(formatStamp).join(", ")}`;
+  if (policy === "refuse") throw new Error(message);
+  console.warn(`Warning: ${message}`);
+  return false;
+}
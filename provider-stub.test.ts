@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createMockProvider,
+  createOpenAICompatibleProvider,
+} from "./llm-provider";
+import { startProviderStub } from "./provider-stub";
+
+describe("startProviderStub", () => {
+  test("passes usage and logprobs through a non-stream response", async () => {
+    const stub = startProviderStub(
+      createMockProvider({
+        model: "mock-intent",
+        fixtures: [
+          {
+            content: '{"action": "noop"}',
+            usage: {
+              promptTokens: 12,
+              completionTokens: 4,
+              reasoningTokens: 2,
+            },
+            logprobs: [{ token: "noop", logprob: -0.05 }],
+          },
+        ],
+      })
+    );
+    try {
+      const provider = createOpenAICompatibleProvider({
+        baseURL: stub.url,
+        model: "mock-intent",
+      });
+      const response = await provider.complete({
+        messages: [{ role: "user", content: "hi" }],
+        logprobs: true,
+      });
+      expect(response.content).toBe('{"action": "noop"}');
+      expect(response.usage).toEqual({
+        promptTokens: 12,
+        completionTokens: 4,
+        totalTokens: 16,
+        reasoningTokens: 2,
+      });
+      expect(response.logprobs).toEqual([{ token: "noop", logprob: -0.05 }]);
+    } finally {
+      stub.stop();
+    }
+  });
+
+  test("streams the provider's chunks as server-sent events", async () => {
+    const stub = startProviderStub(
+      createMockProvider({
+        fixtures: [{ content: '{"action": "noop"}', chunkSize: 5 }],
+      })
+    );
+    try {
+      const provider = createOpenAICompatibleProvider({
+        baseURL: stub.url,
+        model: "mock",
+      });
+      const chunks: string[] = [];
+      for await (const chunk of provider.stream!({
+        messages: [{ role: "user", content: "hi" }],
+      })) {
+        chunks.push(chunk);
+      }
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join("")).toBe('{"action": "noop"}');
+    } finally {
+      stub.stop();
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import type { ChatRequest, LLMProvider } from "./llm-provider";
+
+const encoder = new TextEncoder();
+
+function sseChunk(model: string, content: string | null): Uint8Array {
+  const payload = {
+    object: "chat.completion.chunk",
+    model,
+    choices: [
+      {
+        index: 0,
+        delta: content === null ? {} : { content },
+        finish_reason: content === null ? "stop" : null,
+      },
+    ],
+  };
+  return encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+}
+
+export function startProviderStub(provider: LLMProvider, port = 0) {
+  const server = Bun.serve({
+    port,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (
+        req.method !== "POST" ||
+        !url.pathname.endsWith("/chat/completions")
+      ) {
+        return new Response("Not found", { status: 404 });
+      }
+
+      const body: any = await req.json();
+      const request: ChatRequest = {
+        messages: body.messages ?? [],
+        jsonMode: body.response_format?.type === "json_object",
+        logprobs: Boolean(body.logprobs),
+        signal: req.signal,
+      };
+
+      if (!body.stream) {
+        const response = await provider.complete(request);
+        const { usage, logprobs } = response;
+        return Response.json({
+          model: response.model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: response.content },
+              logprobs: logprobs ? { content: logprobs } : null,
+              finish_reason: "stop",
+            },
+          ],
+          ...(usage
+            ? {
+                usage: {
+                  prompt_tokens: usage.promptTokens,
+                  completion_tokens: usage.completionTokens,
+                  total_tokens: usage.totalTokens,
+                  completion_tokens_details: {
+                    reasoning_tokens: usage.reasoningTokens,
+                  },
+                },
+              }
+            : {}),
+        });
+      }
+
+      const chunks = provider.stream
+        ? provider.stream(request)
+        : (async function* () {
+            yield (await provider.complete(request)).content;
+          })();
+
+      return new Response(
+        new ReadableStream({
+          async start(controller) {
+            try {
+              for await (const chunk of chunks) {
+                controller.enqueue(sseChunk(provider.model, chunk));
+              }
+              controller.enqueue(sseChunk(provider.model, null));
+              controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+              controller.close();
+            } catch (error) {
+              controller.error(error);
+            }
+          },
+        }),
+        { headers: { "Content-Type": "text/event-stream" } }
+      );
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}/v1`,
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { parseFinal } from "./action-format";
+import type { TargetPosition } from "./coverage-planner";
+import { loadMockFixtures } from "./llm-provider";
+import {
+  checkContrastEdit,
+  runQualityChecks,
+  type QualityContext,
+} from "./quality-gates";
+
+const tasks = [
+  { id: "task-12", summary: "Schedule demo with Vendor X", last_update: "" },
+  { id: "task-15", summary: "Prepare onboarding playbook", last_update: "" },
+];
+
+function context(overrides: Partial<QualityContext>): QualityContext {
+  const user = overrides.user ?? "vendor x confirmed wed";
+  return {
+    action: "update_task",
+    style: "casual",
+    language: "en",
+    taskLanguage: "en",
+    user,
+    userMessages: [user],
+    contextMessages: [user],
+    tasks,
+    ledger: null,
+    reasoning: "A reply would leave the ledger stale.",
+    decision: {
+      action: "update_task",
+      args: { task_id: "task-12", explanation: "Demo confirmed." },
+    },
+    ...overrides,
+  };
+}
+
+const failedChecks = (overrides: Partial<QualityContext>) =>
+  runQualityChecks(context(overrides)).map((failure) => failure.check);
+
+describe("runQualityChecks", () => {
+  test("passes a well-formed example", () => {
+    expect(failedChecks({})).toEqual([]);
+  });
+
+  test("enforces the minimal and fragment styles", () => {
+    expect(
+      failedChecks({ style: "minimal", user: "Vendor X confirmed." })
+    ).toEqual(["minimal-style"]);
+    expect(
+      failedChecks({ style: "fragment", user: "vendor x confirmed wed." })
+    ).toEqual(["fragment-style"]);
+  });
+
+  test("rejects a target the conversation never mentions", () => {
+    expect(
+      failedChecks({ user: "any update on the playbook", contextMessages: [] })
+    ).toEqual(["task-reference"]);
+  });
+
+  test("compares the ledger with the planned shape", () => {
+    expect(
+      failedChecks({ ledger: { taskCount: 2, targetPosition: "first" } })
+    ).toEqual([]);
+    expect(
+      failedChecks({ ledger: { taskCount: 2, targetPosition: "last" } })
+    ).toEqual(["ledger-shape"]);
+  });
+});
+
+describe("checkContrastEdit", () => {
+  test("accepts a small edit and rejects a rewrite", () => {
+    expect(
+      checkContrastEdit([
+        "did vendor x confirm yet",
+        "vendor x did confirm wed",
+      ])
+    ).toBeNull();
+    expect(
+      checkContrastEdit(["did vendor x confirm yet", "book a photographer"])
+        ?.check
+    ).toBe("contrast-edit");
+  });
+});
+
+describe("mock teacher fixtures", () => {
+  test("match the ledger shape their prompt pattern plans for", async () => {
+    const fixtures = await loadMockFixtures("fixtures/mock-teacher.json");
+    const shaped = fixtures.filter((fixture) =>
+      fixture.match?.includes("Include exactly")
+    );
+    expect(shaped.length).toBeGreaterThan(0);
+
+    for (const fixture of shaped) {
+      const [, action, count, position] =
+        /intent '(\w+)'.*Include exactly (\d) .*?(?:be the (\w+) entry)?$/.exec(
+          fixture.match!
+        )!;
+      const example = JSON.parse(fixture.content!);
+      const failures = runQualityChecks(
+        context({
+          action: action as QualityContext["action"],
+          user: example.messages.at(-1).content,
+          userMessages: [example.messages.at(-1).content],
+          contextMessages: example.messages.map(
+            (message: { content: string }) => message.content
+          ),
+          tasks: example.tasks,
+          ledger: {
+            taskCount: Number(count),
+            targetPosition: (position ?? null) as TargetPosition | null,
+          },
+          reasoning: example.reasoning,
+          decision: parseFinal(example.final),
+        })
+      );
+      expect({ match: fixture.match, failures }).toEqual({
+        match: fixture.match,
+        failures: [],
+      });
+    }
+  });
+});
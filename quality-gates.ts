@@ -0,0 +1,283 @@
+import { ACTIONS, taskIdArgs } from "./action-registry";
+import {
+  describeLedger,
+  ledgerShapeOf,
+  type LedgerShape,
+} from "./coverage-planner";
+import type { ActionKind } from "./dataset-rows";
+import type { IntentDecision, TaskRecord } from "./intent-prompt";
+
+export type QualityContext = {
+  action: ActionKind;
+  style: string;
+  language: string;
+  taskLanguage: string;
+  user: string;
+  userMessages: string[];
+  contextMessages: string[];
+  tasks: TaskRecord[];
+  ledger: LedgerShape | null;
+  reasoning: string;
+  decision: IntentDecision;
+};
+
+export type QualityCheck = {
+  name: string;
+  description: string;
+  run(context: QualityContext): string | null;
+};
+
+export type QualityFailure = { check: string; message: string };
+
+export type QualityRecord = {
+  globalIndex: number;
+  partition: string;
+  action: ActionKind;
+  style: string;
+  language: string;
+  attempt: number;
+  failures: QualityFailure[];
+};
+
+export class QualityGateError extends Error {
+  constructor(readonly failures: QualityFailure[]) {
+    super(
+      `Quality checks failed: ${failures
+        .map((failure) => `${failure.check} (${failure.message})`)
+        .join("; ")}`
+    );
+    this.name = "QualityGateError";
+  }
+}
+
+const STOPWORDS = new Set(
+  "about after again also been before being could does from have into just more need only over should still than that their them then there these they this those through very want were what when where which while will with would your".split(
+    " "
+  )
+);
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word));
+}
+
+function stems(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+      .filter((word) => word.length >= 4 && !STOPWORDS.has(word))
+      .map((word) => word.slice(0, 5))
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Action names that are also ordinary words only count as leaked in call form.
+const EVERYDAY_ACTION_NAMES = new Set<string>(["reply"]);
+
+const ALTERNATIVE_CUES =
+  /\b(instead|rather than|alternatives?|not chosen|ruled out|reject(?:ed|s|ing)?|wouldn't|would not|no need to|unnecessary|premature|inappropriate)\b/i;
+
+const minimalStyle: QualityCheck = {
+  name: "minimal-style",
+  description: "minimal-style messages are 3-6 lowercase words",
+  run: ({ style, user }) => {
+    if (style !== "minimal") return null;
+    const count = words(user).length;
+    if (count < 3 || count > 6) {
+      return `minimal style needs 3-6 words, the user message has ${count}`;
+    }
+    if (user !== user.toLowerCase()) {
+      return "minimal style must be all lowercase";
+    }
+    return null;
+  },
+};
+
+const fragmentStyle: QualityCheck = {
+  name: "fragment-style",
+  description: "fragment-style messages are visibly unfinished",
+  run: ({ style, user }) => {
+    if (style !== "fragment") return null;
+    const trimmed = user.trim();
+    if (/(\.\.\.|…)$/.test(trimmed)) return null;
+    if (/[.!?]["')\]]*$/.test(trimmed)) {
+      return "fragment style must read as unfinished, but the user message ends with terminal punctuation";
+    }
+    return null;
+  },
+};
+
+const reasoningAlternatives: QualityCheck = {
+  name: "reasoning-alternatives",
+  description: "reasoning explains why other actions were rejected",
+  run: ({ action, reasoning }) => {
+    if (ALTERNATIVE_CUES.test(reasoning)) return null;
+    const mentionsOther = ACTIONS.some(
+      (other) =>
+        other.name !== action &&
+        new RegExp(
+          `\\b${escapeRegExp(other.name).replace("_", "[_ ]")}\\b`,
+          "i"
+        ).test(reasoning)
+    );
+    return mentionsOther
+      ? null
+      : "reasoning never says which alternative actions were rejected or why";
+  },
+};
+
+const noLeakage: QualityCheck = {
+  name: "no-leakage",
+  description:
+    "user messages never name the target action or call the data synthetic",
+  run: ({ action, userMessages }) => {
+    const text = userMessages.join("\n");
+    if (/\bsynthetic\b/i.test(text)) {
+      return "a user message mentions the word 'synthetic'";
+    }
+    const name = escapeRegExp(action);
+    const pattern = EVERYDAY_ACTION_NAMES.has(action)
+      ? new RegExp(`\\b${name}\\s*\\(`, "i")
+      : new RegExp(`\\b${name}\\b`, "i");
+    if (pattern.test(text)) {
+      return `a user message leaks the target action name '${action}'`;
+    }
+    return null;
+  },
+};
+
+const taskReference: QualityCheck = {
+  name: "task-reference",
+  description: "task-targeting actions pick a task the conversation refers to",
+  run: ({ decision, tasks, contextMessages, language, taskLanguage }) => {
+    const [taskId] = taskIdArgs(decision);
+    if (taskId === undefined) return null;
+    const task = tasks.find((candidate) => candidate.id === taskId);
+    if (!task) return null;
+
+    const text = contextMessages.join("\n");
+    if (text.toLowerCase().includes(task.id.toLowerCase())) return null;
+    const conversation = stems(text);
+    const overlap = [...stems(`${task.summary} ${task.last_update}`)].filter(
+      (stem) => conversation.has(stem)
+    );
+    // Word stems cannot bridge a localized conversation and an English ledger.
+    return overlap.length > 0 || language !== taskLanguage
+      ? null
+      : `${decision.action} targets ${task.id} ("${task.summary}") but nothing in the conversation refers to it`;
+  },
+};
+
+const ledgerShape: QualityCheck = {
+  name: "ledger-shape",
+  description:
+    "the ledger has the planned task count and the target sits at the planned position",
+  run: ({ ledger, tasks, decision }) => {
+    if (!ledger) return null;
+    const actual = ledgerShapeOf(tasks, decision);
+    if (
+      actual.taskCount === ledger.taskCount &&
+      actual.targetPosition === ledger.targetPosition
+    ) {
+      return null;
+    }
+    return `the plan asked for ${describeLedger(
+      ledger
+    )} but the example has ${describeLedger(actual)}`;
+  },
+};
+
+// Message style, rejected alternatives in the reasoning, no action-name
+// leakage, plausible task targets and the planned ledger shape. The generator
+// writes what failed to `intent-dataset-quality-report.json`.
+export const QUALITY_CHECKS: QualityCheck[] = [
+  minimalStyle,
+  fragmentStyle,
+  reasoningAlternatives,
+  noLeakage,
+  taskReference,
+  ledgerShape,
+];
+
+export const QUALITY_CHECK_NAMES = QUALITY_CHECKS.map(
+  (check) => check.name
+) as [string, ...string[]];
+
+export function selectQualityChecks(names: string[]): QualityCheck[] {
+  return names.map((name) => {
+    const check = QUALITY_CHECKS.find((candidate) => candidate.name === name);
+    if (!check) throw new Error(`Unknown quality check '${name}'`);
+    return check;
+  });
+}
+
+export function runQualityChecks(
+  context: QualityContext,
+  checks: QualityCheck[] = QUALITY_CHECKS
+): QualityFailure[] {
+  return checks.flatMap((check) => {
+    const message = check.run(context);
+    return message === null ? [] : [{ check: check.name, message }];
+  });
+}
+
+const MIN_CONTRAST_OVERLAP = 0.4;
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+// Contrast variants must differ, but only by a small edit.
+export function checkContrastEdit(users: string[]): QualityFailure | null {
+  for (let i = 0; i < users.length; i++) {
+    for (let j = i + 1; j < users.length; j++) {
+      const a = wordSet(users[i]!);
+      const b = wordSet(users[j]!);
+      const shared = [...a].filter((word) => b.has(word)).length;
+      const overlap = shared / (a.size + b.size - shared || 1);
+      if (users[i]!.trim().toLowerCase() === users[j]!.trim().toLowerCase()) {
+        return {
+          check: "contrast-edit",
+          message: `contrast variants ${i + 1} and ${j + 1} use the same user message`,
+        };
+      }
+      if (overlap < MIN_CONTRAST_OVERLAP) {
+        return {
+          check: "contrast-edit",
+          message: `contrast variants ${i + 1} and ${j + 1} share only ${Math.round(
+            overlap * 100
+          )}% of their words; keep the edit between them minimal`,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+export function summarizeQuality(
+  records: QualityRecord[],
+  checks: QualityCheck[] = QUALITY_CHECKS
+) {
+  const attempts = records.length;
+  const rejected = records.filter((record) => record.failures.length > 0);
+  const count = (items: string[]) =>
+    items.reduce<Record<string, number>>((acc, item) => {
+      acc[item] = (acc[item] ?? 0) + 1;
+      return acc;
+    }, {});
+  const failures = rejected.flatMap((record) => record.failures);
+
+  return {
+    checks: checks.map(({ name, description }) => ({ name, description })),
+    attempts,
+    passed: attempts - rejected.length,
+    rejected: rejected.length,
+    passRate: attempts === 0 ? 1 : (attempts - rejected.length) / attempts,
+    failuresByCheck: count(failures.map((failure) => failure.check)),
+    failuresByAction: count(rejected.map((record) => record.action)),
+    failuresByStyle: count(rejected.map((record) => record.style)),
+    failuresByLanguage: count(rejected.map((record) => record.language)),
+    rejections: rejected,
+  };
+}
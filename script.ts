@@ -1,29 +1,54 @@
-import { intentPrompt, schema } from "./intent-prompt";
-import { OpenAI } from "openai";
-import Together from "together-ai";
-import { z } from "zod";
+import { createIntentGuardrail } from "./intent-guardrail";
+import { createProvider, providerConfigFromEnv } from "./llm-provider";
+import {
+  checkPromptCompatibility,
+  getPrompt,
+  parsePromptPolicy,
+  parsePromptStamp,
+  stampOf,
+} from "./prompt-registry";
 
-// const openai = new OpenAI({
-//   apiKey: process.env.OPENAI_API_KEY,
-// });
-const together = new Together({
-  apiKey: process.env.TOGETHER_API_KEY,
-});
-
-const completion = await together.chat.completions
-  .create({
+const student = await createProvider(
+  providerConfigFromEnv("STUDENT", {
+    provider: "together",
     model: "dk_4ee7/gpt-oss-20b-d1b0cf14-7b07d775",
-    messages: [
-      { role: "system", content: intentPrompt },
-      { role: "user", content: "whats the weather sf" },
-    ],
-    response_format: {
-      type: "json_object",
-    },
-  })
-  .then((completion) => {
-    console.log(completion.choices[0]?.message?.content);
   })
-  .catch((error) => {
-    console.error(error);
+);
+const prompt = getPrompt();
+if (process.env.STUDENT_PROMPT) {
+  checkPromptCompatibility({
+    context: `Student ${student.model}`,
+    trained: [parsePromptStamp(process.env.STUDENT_PROMPT)],
+    active: stampOf(prompt),
+    policy: parsePromptPolicy(process.env.PROMPT_POLICY),
   });
+}
+
+const guardrail = createIntentGuardrail({
+  provider: student,
+  prompt,
+  timeoutMs: Number(process.env.LATENCY_BUDGET_MS ?? "2000"),
+  fallbacks: {
+    voice: {
+      action: "reply",
+      args: {
+        text: "Tell the user you did not catch that and ask them to repeat the request.",
+      },
+    },
+  },
+  onDecision: (result) => {
+    if (result.path === "clean") return;
+    console.warn(
+      `Guardrail took the ${result.path} path: ${result.attempts
+        .map((attempt) => attempt.error ?? "ok")
+        .join(" -> ")}`
+    );
+  },
+});
+
+const result = await guardrail.decide(
+  [{ role: "user", content: "whats the weather sf" }],
+  [],
+  process.env.CHANNEL
+);
+console.log(JSON.stringify(result, null, 2));
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { createMockProvider } from "./llm-provider";
+import {
+  createStreamingIntentDetector,
+  readStreamedAction,
+  type StreamingIntentEvent,
+} from "./streaming-intent";
+
+function detector(debounceMs: number) {
+  const events: StreamingIntentEvent[] = [];
+  const detect = createStreamingIntentDetector({
+    provider: createMockProvider({
+      fixtures: [
+        {
+          match: "weather",
+          content: '{"action": "reply", "args": {"text": "Ask which city."}}',
+        },
+        { content: '{"action": "noop"}' },
+      ],
+      loop: true,
+    }),
+    debounceMs,
+    onEvent: (event) => events.push(event),
+  });
+  // Streamed announcements carry no decision yet; keep only settled outcomes.
+  const outcomes = () =>
+    events
+      .filter((event) => event.type !== "provisional" || event.decision)
+      .map((event) => [event.type, "action" in event ? event.action : null]);
+  return { detect, outcomes };
+}
+
+describe("readStreamedAction", () => {
+  test("reads the action from a partial JSON decision", () => {
+    expect(readStreamedAction('{"action": "reply", "ar')).toBe("reply");
+    expect(readStreamedAction('{"action": "rep')).toBeNull();
+  });
+});
+
+describe("createStreamingIntentDetector", () => {
+  test("settled waits for a debounced update", async () => {
+    const { detect, outcomes } = detector(20);
+    detect.update("can you");
+    await detect.settled();
+    expect(outcomes()).toEqual([["provisional", "noop"]]);
+    await detect.close();
+  });
+
+  test("retracts a provisional action the final transcript contradicts", async () => {
+    const { detect, outcomes } = detector(0);
+    detect.update("can you");
+    await detect.settled();
+    detect.update("can you check the weather", true);
+    await detect.settled();
+    expect(outcomes()).toEqual([
+      ["provisional", "noop"],
+      ["retracted", "noop"],
+      ["committed", "reply"],
+    ]);
+  });
+});
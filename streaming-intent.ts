@@ -0,0 +1,303 @@
+import { readFile } from "node:fs/promises";
+import { findAction, type ActionKind } from "./action-registry";
+import {
+  parseDecision,
+  validateAgainstLedger,
+  type IntentDecision,
+  type TaskRecord,
+} from "./intent-prompt";
+import { buildIntentMessages } from "./intent-router";
+import {
+  createOpenAICompatibleProvider,
+  createProvider,
+  providerConfigFromEnv,
+  type ChatMessage,
+  type ChatRequest,
+  type LLMProvider,
+} from "./llm-provider";
+import { startProviderStub } from "./provider-stub";
+
+export type StreamingIntentEvent =
+  | {
+      type: "provisional";
+      revision: number;
+      transcript: string;
+      action: ActionKind;
+      decision: IntentDecision | null;
+      latencyMs: number;
+    }
+  | {
+      type: "committed";
+      revision: number;
+      transcript: string;
+      action: ActionKind;
+      decision: IntentDecision;
+      latencyMs: number;
+    }
+  | {
+      type: "retracted";
+      revision: number;
+      action: ActionKind;
+      reason: string;
+    }
+  | {
+      type: "error";
+      revision: number;
+      message: string;
+    };
+
+export type StreamingIntentOptions = {
+  provider: LLMProvider;
+  history?: ChatMessage[];
+  tasks?: TaskRecord[];
+  debounceMs?: number;
+  onEvent: (event: StreamingIntentEvent) => void;
+};
+
+export type TranscriptStep = {
+  atMs: number;
+  text: string;
+  final?: boolean;
+};
+
+const ACTION_FIELD = /"action"\s*:\s*"([a-z_]+)"/;
+
+export function readStreamedAction(partial: string): ActionKind | null {
+  const match = ACTION_FIELD.exec(partial);
+  const action = match?.[1] ? findAction(match[1]) : undefined;
+  return (action?.name as ActionKind | undefined) ?? null;
+}
+
+async function* streamCompletion(
+  provider: LLMProvider,
+  request: ChatRequest
+): AsyncIterable<string> {
+  if (provider.stream) {
+    yield* provider.stream(request);
+  } else {
+    yield (await provider.complete(request)).content;
+  }
+}
+
+export function createStreamingIntentDetector(options: StreamingIntentOptions) {
+  const debounceMs = options.debounceMs ?? 150;
+  const history = options.history ?? [];
+  const tasks = options.tasks ?? [];
+
+  let revision = 0;
+  let debounce: {
+    timer: ReturnType<typeof setTimeout>;
+    done: Promise<void>;
+    release: () => void;
+  } | null = null;
+  let controller: AbortController | null = null;
+  let running: Promise<void> = Promise.resolve();
+  let outstanding: { revision: number; action: ActionKind } | null = null;
+
+  const emit = (event: StreamingIntentEvent) => options.onEvent(event);
+
+  const cancelDebounce = () => {
+    if (!debounce) return;
+    clearTimeout(debounce.timer);
+    debounce.release();
+    debounce = null;
+  };
+
+  const retractOutstanding = (reason: string, keep?: ActionKind) => {
+    if (!outstanding || outstanding.action === keep) return;
+    emit({ type: "retracted", ...outstanding, reason });
+    outstanding = null;
+  };
+
+  async function detect(current: number, transcript: string, final: boolean) {
+    const abort = new AbortController();
+    controller = abort;
+    const startedAt = performance.now();
+    const isStale = () => abort.signal.aborted || current !== revision;
+
+    const messages = buildIntentMessages(
+      [...history, { role: "user", content: transcript }],
+      tasks
+    );
+    let buffer = "";
+    let announced: ActionKind | null = null;
+
+    try {
+      for await (const delta of streamCompletion(options.provider, {
+        messages,
+        jsonMode: true,
+        signal: abort.signal,
+      })) {
+        if (isStale()) return;
+        buffer += delta;
+        if (announced) continue;
+
+        announced = readStreamedAction(buffer);
+        if (!announced) continue;
+        retractOutstanding(`revision ${current} chose ${announced}`, announced);
+        outstanding = { revision: current, action: announced };
+        emit({
+          type: "provisional",
+          revision: current,
+          transcript,
+          action: announced,
+          decision: null,
+          latencyMs: performance.now() - startedAt,
+        });
+      }
+      if (isStale()) return;
+
+      const decision = parseDecision(buffer);
+      const [issue] = validateAgainstLedger(decision, tasks);
+      if (issue) throw new Error(issue.message);
+
+      retractOutstanding(
+        `revision ${current} chose ${decision.action}`,
+        decision.action
+      );
+      const latencyMs = performance.now() - startedAt;
+      if (final) {
+        outstanding = null;
+        emit({
+          type: "committed",
+          revision: current,
+          transcript,
+          action: decision.action,
+          decision,
+          latencyMs,
+        });
+      } else {
+        outstanding = { revision: current, action: decision.action };
+        emit({
+          type: "provisional",
+          revision: current,
+          transcript,
+          action: decision.action,
+          decision,
+          latencyMs,
+        });
+      }
+    } catch (error) {
+      if (isStale()) return;
+      const message = (error as Error).message;
+      if (final) retractOutstanding(`revision ${current} failed: ${message}`);
+      emit({ type: "error", revision: current, message });
+    } finally {
+      if (controller === abort) controller = null;
+    }
+  }
+
+  function update(transcript: string, final = false): number {
+    revision += 1;
+    const current = revision;
+    cancelDebounce();
+    controller?.abort();
+    controller = null;
+
+    const run = () => {
+      running = detect(current, transcript, final);
+    };
+    if (final || debounceMs <= 0) {
+      run();
+    } else {
+      let release!: () => void;
+      const done = new Promise<void>((resolve) => (release = resolve));
+      const timer = setTimeout(() => {
+        debounce = null;
+        run();
+        release();
+      }, debounceMs);
+      debounce = { timer, done, release };
+    }
+    return current;
+  }
+
+  // Resolves once no detection is debounced or in flight.
+  async function settled(): Promise<void> {
+    let previous: Promise<void> | null = null;
+    while (debounce || previous !== running) {
+      if (debounce) await debounce.done;
+      previous = running;
+      await running;
+    }
+  }
+
+  async function close(): Promise<void> {
+    cancelDebounce();
+    controller?.abort();
+    await settled();
+  }
+
+  return { update, settled, close };
+}
+
+export type StreamingIntentDetector = ReturnType<
+  typeof createStreamingIntentDetector
+>;
+
+export async function feedTranscript(
+  detector: StreamingIntentDetector,
+  steps: TranscriptStep[]
+): Promise<void> {
+  const startedAt = performance.now();
+  for (const step of steps) {
+    const wait = step.atMs - (performance.now() - startedAt);
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    detector.update(step.text, step.final ?? false);
+  }
+  await detector.settled();
+}
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+async function main() {
+  const scriptPath = readArg("script") ?? "fixtures/voice-transcript.json";
+  const steps = JSON.parse(
+    await readFile(scriptPath, "utf8")
+  ) as TranscriptStep[];
+  const config = providerConfigFromEnv("STREAM", {
+    provider: "mock",
+    model: "mock-stream",
+  });
+  config.fixtures =
+    readArg("fixtures") ?? config.fixtures ?? "fixtures/mock-stream.json";
+
+  let provider = await createProvider(config);
+  const stub = process.argv.includes("--stub")
+    ? startProviderStub(provider)
+    : null;
+  if (stub) {
+    provider = createOpenAICompatibleProvider({
+      name: "stub",
+      baseURL: stub.url,
+      model: provider.model,
+    });
+    console.log(`Streaming through local stub at ${stub.url}`);
+  }
+
+  const startedAt = performance.now();
+  const detector = createStreamingIntentDetector({
+    provider,
+    debounceMs: Number(readArg("debounce") ?? "150"),
+    onEvent: (event) => {
+      const at = (performance.now() - startedAt).toFixed(0).padStart(5);
+      console.log(`${at} ms  ${JSON.stringify(event)}`);
+    },
+  });
+
+  try {
+    await feedTranscript(detector, steps);
+  } finally {
+    await detector.close();
+    stub?.stop();
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createTaskLedger, readEventLog, replay } from "./task-ledger";
+
+async function withLog(run: (logPath: string) => Promise<void>) {
+  const dir = await mkdtemp(path.join(tmpdir(), "task-ledger-"));
+  try {
+    await run(path.join(dir, "events.jsonl"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe("createTaskLedger", () => {
+  test("applies decisions and replays them from the log", () =>
+    withLog(async (logPath) => {
+      const ledger = await createTaskLedger({
+        logPath,
+        seed: [{ id: "task-1", summary: "Book venue", last_update: "Asked" }],
+      });
+      await ledger.apply({
+        action: "update_task",
+        args: { task_id: "task-1", explanation: "Venue confirmed" },
+      });
+      await ledger.apply({
+        action: "start_task",
+        args: { explanation: "Order flowers" },
+      });
+
+      expect(ledger.tasks().map((task) => task.id)).toEqual([
+        "task-1",
+        "task-2",
+      ]);
+      expect(replay(await readEventLog(logPath))).toEqual(ledger.state);
+    }));
+
+  test("serializes concurrent applies", () =>
+    withLog(async (logPath) => {
+      const ledger = await createTaskLedger({ logPath });
+      const events = await Promise.all([
+        ledger.apply({ action: "start_task", args: { explanation: "One" } }),
+        ledger.apply({ action: "start_task", args: { explanation: "Two" } }),
+      ]);
+
+      expect(events.map((event) => event.seq)).toEqual([1, 2]);
+      expect(ledger.tasks().map((task) => task.summary)).toEqual([
+        "One",
+        "Two",
+      ]);
+      expect(replay(await readEventLog(logPath))).toEqual(ledger.state);
+    }));
+
+  test("keeps committing after a rejected decision", () =>
+    withLog(async (logPath) => {
+      const ledger = await createTaskLedger({ logPath });
+      const [rejected, accepted] = await Promise.allSettled([
+        ledger.apply({
+          action: "cancel_task",
+          args: { task_id: "task-9", explanation: "Gone" },
+        }),
+        ledger.apply({ action: "noop" }),
+      ]);
+
+      expect(rejected.status).toBe("rejected");
+      expect(accepted.status).toBe("fulfilled");
+      expect(ledger.state.seq).toBe(1);
+    }));
+});
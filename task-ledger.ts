@@ -0,0 +1,260 @@
+import { appendFile, readFile } from "node:fs/promises";
+import {
+  decisionNote,
+  getAction,
+  type ActionsWithEffect,
+} from "./action-registry";
+import {
+  decisionTaskId,
+  schema,
+  validateAgainstLedger,
+  type IntentDecision,
+  type TaskRecord,
+} from "./intent-prompt";
+
+export type LedgerTask = TaskRecord & {
+  status: "open" | "cancelled";
+  created_at: string;
+  updated_at: string;
+  cancel_reason: string | null;
+};
+
+export type LedgerState = {
+  tasks: LedgerTask[];
+  nextTaskNumber: number;
+  seq: number;
+};
+
+export type LedgerEvent =
+  | { seq: number; at: string; type: "ledger_seeded"; tasks: TaskRecord[] }
+  | {
+      seq: number;
+      at: string;
+      type: "task_started" | "task_updated" | "task_cancelled";
+      task_id: string;
+      decision: IntentDecision;
+    }
+  | {
+      seq: number;
+      at: string;
+      type: ActionsWithEffect<"none">;
+      decision: IntentDecision;
+    };
+
+const TASK_ID_PATTERN = /^task-(\d+)$/;
+
+export function emptyLedger(): LedgerState {
+  return { tasks: [], nextTaskNumber: 1, seq: 0 };
+}
+
+export function openTasks(state: LedgerState): TaskRecord[] {
+  return state.tasks
+    .filter((task) => task.status === "open")
+    .map(({ id, summary, last_update }) => ({ id, summary, last_update }));
+}
+
+function nextNumberAfter(current: number, taskId: string): number {
+  const match = TASK_ID_PATTERN.exec(taskId);
+  return match ? Math.max(current, Number(match[1]) + 1) : current;
+}
+
+function findOpenTask(state: LedgerState, taskId: string): LedgerTask {
+  const task = state.tasks.find((candidate) => candidate.id === taskId);
+  if (!task) throw new Error(`Task '${taskId}' does not exist`);
+  if (task.status !== "open") {
+    throw new Error(`Task '${taskId}' is already ${task.status}`);
+  }
+  return task;
+}
+
+export function applyEvent(
+  state: LedgerState,
+  event: LedgerEvent
+): LedgerState {
+  if (event.seq !== state.seq + 1) {
+    throw new Error(
+      `Event seq ${event.seq} does not follow ledger seq ${state.seq}`
+    );
+  }
+
+  const next: LedgerState = {
+    tasks: state.tasks.map((task) => ({ ...task })),
+    nextTaskNumber: state.nextTaskNumber,
+    seq: event.seq,
+  };
+
+  switch (event.type) {
+    case "ledger_seeded": {
+      for (const task of event.tasks) {
+        if (next.tasks.some((existing) => existing.id === task.id)) {
+          throw new Error(`Duplicate task id detected: ${task.id}`);
+        }
+        next.tasks.push({
+          ...task,
+          status: "open",
+          created_at: event.at,
+          updated_at: event.at,
+          cancel_reason: null,
+        });
+        next.nextTaskNumber = nextNumberAfter(next.nextTaskNumber, task.id);
+      }
+      break;
+    }
+    case "task_started": {
+      if (getAction(event.decision.action).ledger !== "create") {
+        throw new Error(`task_started event carries ${event.decision.action}`);
+      }
+      if (next.tasks.some((task) => task.id === event.task_id)) {
+        throw new Error(`Task '${event.task_id}' already exists`);
+      }
+      next.tasks.push({
+        id: event.task_id,
+        summary: decisionNote(event.decision),
+        last_update: "Task started",
+        status: "open",
+        created_at: event.at,
+        updated_at: event.at,
+        cancel_reason: null,
+      });
+      next.nextTaskNumber = nextNumberAfter(next.nextTaskNumber, event.task_id);
+      break;
+    }
+    case "task_updated":
+    case "task_cancelled": {
+      const { decision } = event;
+      const { ledger } = getAction(decision.action);
+      if (ledger !== "update" && ledger !== "cancel") {
+        throw new Error(`${event.type} event carries ${decision.action}`);
+      }
+      const task = findOpenTask(next, event.task_id);
+      task.last_update = decisionNote(decision);
+      task.updated_at = event.at;
+      if (event.type === "task_cancelled") {
+        task.status = "cancelled";
+        task.cancel_reason = decisionNote(decision);
+      }
+      break;
+    }
+    default:
+      break;
+  }
+
+  return next;
+}
+
+export function eventFromDecision(
+  state: LedgerState,
+  decision: IntentDecision,
+  at: string
+): LedgerEvent {
+  const parsed = schema.parse(decision);
+  const [issue] = validateAgainstLedger(parsed, openTasks(state));
+  if (issue) throw new Error(issue.message);
+
+  const seq = state.seq + 1;
+  switch (getAction(parsed.action).ledger) {
+    case "create":
+      return {
+        seq,
+        at,
+        type: "task_started",
+        task_id: `task-${state.nextTaskNumber}`,
+        decision: parsed,
+      };
+    case "update":
+      return {
+        seq,
+        at,
+        type: "task_updated",
+        task_id: decisionTaskId(parsed)!,
+        decision: parsed,
+      };
+    case "cancel":
+      return {
+        seq,
+        at,
+        type: "task_cancelled",
+        task_id: decisionTaskId(parsed)!,
+        decision: parsed,
+      };
+    case "none":
+      return {
+        seq,
+        at,
+        type: parsed.action as ActionsWithEffect<"none">,
+        decision: parsed,
+      };
+  }
+}
+
+export function replay(events: LedgerEvent[]): LedgerState {
+  return events.reduce(applyEvent, emptyLedger());
+}
+
+export async function readEventLog(logPath: string): Promise<LedgerEvent[]> {
+  let text: string;
+  try {
+    text = await readFile(logPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as LedgerEvent);
+}
+
+// `start_task` gets the next free `task-N` id, and updating or cancelling a
+// task that is closed or unknown throws. Decisions that leave tasks alone are
+// still logged under their action name. `tasks()` returns the open tasks in
+// the shape the intent prompt expects.
+export async function createTaskLedger(options: {
+  logPath: string;
+  seed?: TaskRecord[];
+  now?: () => Date;
+}) {
+  const now = options.now ?? (() => new Date());
+  const events = await readEventLog(options.logPath);
+  let state = replay(events);
+  // Each commit reads the state the previous one left behind, so concurrent
+  // applies queue up instead of racing for the same seq.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(work: () => Promise<T>): Promise<T> => {
+    const run = queue.then(work);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const commit = async (event: LedgerEvent): Promise<LedgerEvent> => {
+    const next = applyEvent(state, event);
+    await appendFile(options.logPath, JSON.stringify(event) + "\n");
+    state = next;
+    return event;
+  };
+
+  if (events.length === 0 && options.seed && options.seed.length > 0) {
+    await commit({
+      seq: 1,
+      at: now().toISOString(),
+      type: "ledger_seeded",
+      tasks: options.seed,
+    });
+  }
+
+  return {
+    get state(): LedgerState {
+      return state;
+    },
+    tasks(): TaskRecord[] {
+      return openTasks(state);
+    },
+    apply(decision: IntentDecision): Promise<LedgerEvent> {
+      return serialize(() =>
+        commit(eventFromDecision(state, decision, now().toISOString()))
+      );
+    },
+  };
+}